@@ -1,7 +1,33 @@
 import { NextResponse } from "next/server";
+import { getEndpointProfile } from "@/lib/endpoints";
+import {
+  fetchFromBinance,
+  getExchangeInfo,
+  UpstreamError,
+  upstreamErrorResponse,
+  weightHeaders,
+} from "@/lib/binance-rest";
+import { CoalescingCache } from "@/lib/coalescing-cache";
 
 export const runtime = "edge"; // run on Vercel Edge Network
 
+const SYMBOL_PATTERN = /^[A-Z0-9\-_.]{1,20}$/; // Binance's own symbol format
+const DEFAULT_LIMIT = 1000;
+const MIN_LIMIT = 5;
+const MAX_LIMIT = 5000;
+// Snapshots for display only may be up to a second old. Clients syncing
+// against the diff stream pass `fresh=1`: a cached snapshot can predate their
+// first buffered diff and never line up, so they only share requests in flight.
+const DEPTH_CACHE_MS = 1000;
+
+interface CachedDepth {
+  body: string;
+  headers: Record<string, string>; // Weight headers of the upstream call that produced the body
+}
+
+// Concurrent clients asking for the same book share one upstream request.
+const depthCache = new CoalescingCache<CachedDepth>(DEPTH_CACHE_MS);
+
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const symbol = searchParams.get("symbol")?.toUpperCase();
@@ -9,33 +35,54 @@ export async function GET(req: Request) {
   if (!symbol) {
     return NextResponse.json({ error: "Symbol is required" }, { status: 400 });
   }
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return NextResponse.json({ error: `Invalid symbol: ${symbol}` }, { status: 400 });
+  }
 
-  try {
-    const binanceUrl = `https://api.binance.com/api/v3/depth?symbol=${symbol}&limit=1000`;
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < MIN_LIMIT || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `Limit must be an integer between ${MIN_LIMIT} and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
 
-    const response = await fetch(binanceUrl, {
-      headers: {
-        "User-Agent": "Mozilla/5.0", // Pretend to be a browser → avoids blocks
-      },
-      next: { revalidate: 0 }, // prevent caching
-    });
+  const profile = getEndpointProfile(searchParams.get("profile"));
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown endpoint profile" }, { status: 400 });
+  }
 
-    if (!response.ok) {
-      const err = await response.text();
-      return NextResponse.json(
-        { error: "Binance fetch failed", details: err },
-        { status: response.status }
-      );
+  try {
+    // Validation is best effort: without exchange info the upstream rejects unknown symbols itself.
+    const exchangeInfo = await getExchangeInfo(profile).catch((error) => {
+      console.warn("Exchange info unavailable, skipping symbol validation:", error);
+      return null;
+    });
+    if (exchangeInfo && !exchangeInfo.symbols.some((candidate) => candidate.symbol === symbol)) {
+      return NextResponse.json({ error: `Unknown symbol: ${symbol}` }, { status: 400 });
     }
 
-    const data = await response.json();
-    return NextResponse.json(data, {
+    // Fails over across the profile's mirror hosts; bans and rate limits come back typed.
+    const depth = await depthCache.get(
+      `${profile.id}:${symbol}:${limit}`,
+      async () => {
+        const response = await fetchFromBinance(profile, `/api/v3/depth?symbol=${symbol}&limit=${limit}`);
+        return { body: await response.text(), headers: weightHeaders(response) };
+      },
+      { fresh: searchParams.get("fresh") === "1" }
+    );
+
+    return new NextResponse(depth.body, {
       status: 200,
       headers: {
+        ...depth.headers,
+        "Content-Type": "application/json",
         "Cache-Control": "no-store", // ensure fresh data
       },
     });
   } catch (error: any) {
+    if (error instanceof UpstreamError) return upstreamErrorResponse(error);
     return NextResponse.json(
       { error: "Internal Server Error", details: error.message },
       { status: 500 }
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getEndpointProfile } from "@/lib/endpoints";
+import { getExchangeInfo, UpstreamError, upstreamErrorResponse } from "@/lib/binance-rest";
+import type { ExchangeInfo } from "@/lib/types";
+
+export const runtime = "edge"; // run on Vercel Edge Network
+
+// The client only needs these filters; the full response is several megabytes.
+const CLIENT_FILTERS = ["PRICE_FILTER", "LOT_SIZE"];
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const profile = getEndpointProfile(searchParams.get("profile"));
+  // With ?symbol= only that symbol is returned, for cheap status polling.
+  const symbol = searchParams.get("symbol")?.toUpperCase();
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown endpoint profile" }, { status: 400 });
+  }
+
+  try {
+    const info = await getExchangeInfo(profile);
+    const symbols = symbol ? info.symbols.filter((candidate) => candidate.symbol === symbol) : info.symbols;
+    const slim: ExchangeInfo = {
+      timezone: info.timezone,
+      serverTime: info.serverTime,
+      symbols: symbols.map(({ symbol, status, baseAsset, quoteAsset, filters, isSpotTradingAllowed }) => ({
+        symbol,
+        status,
+        baseAsset,
+        quoteAsset,
+        filters: filters.filter((filter) => CLIENT_FILTERS.includes(filter.filterType)),
+        isSpotTradingAllowed, // Tells a delisted pair from a paused one, both reported as BREAK
+      })),
+    };
+    return NextResponse.json(slim, {
+      status: 200,
+      headers: {
+        "Cache-Control": "public, max-age=30, s-maxage=60", // statuses can change at any time
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof UpstreamError) return upstreamErrorResponse(error);
+    return NextResponse.json(
+      { error: "Internal Server Error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getEndpointProfile } from "@/lib/endpoints";
+import { fetchFromBinance, UpstreamError, upstreamErrorResponse } from "@/lib/binance-rest";
+
+export const runtime = "edge"; // run on Vercel Edge Network
+
+export async function GET(req: Request) {
+  const profile = getEndpointProfile(new URL(req.url).searchParams.get("profile"));
+  if (!profile) {
+    return NextResponse.json({ error: "Unknown endpoint profile" }, { status: 400 });
+  }
+
+  try {
+    const response = await fetchFromBinance(profile, "/api/v3/time");
+
+    const data = await response.json();
+    return NextResponse.json(data, {
+      status: 200,
+      headers: {
+        "Cache-Control": "no-store", // a cached server time is useless for clock sync
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof UpstreamError) return upstreamErrorResponse(error);
+    return NextResponse.json(
+      { error: "Internal Server Error", details: error.message },
+      { status: 500 }
+    );
+  }
+}
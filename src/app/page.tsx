@@ -1,9 +1,22 @@
 "use client";
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import OrderBook from '@/components/order-book';
 import RecentTrades from '@/components/recent-trades';
+import ConnectionStatus from '@/components/connection-status';
+import ConnectionAlert from '@/components/connection-alert';
+import RetryCountdown from '@/components/retry-countdown';
+import StreamHealthPanel from '@/components/stream-health-panel';
+import DiagnosticsPanel from '@/components/diagnostics-panel';
+import SymbolPicker from '@/components/symbol-picker';
+import MarketStatusAlert from '@/components/market-status-alert';
+import OrderBookGrouping from '@/components/order-book-grouping';
 import { useBinanceData } from '@/hooks/use-binance-data';
+import { useExchangeInfo, useSymbolInfo } from '@/hooks/use-exchange-info';
+import { getDefaultEndpointProfile, getEndpointProfiles, type EndpointProfileId } from '@/lib/endpoints';
+import { getSymbolFormat } from '@/lib/symbol-format';
+import { getMarketStatus } from '@/lib/market-status';
+import { getGroupingSteps } from '@/lib/price-grouping';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Select,
@@ -12,18 +25,39 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Terminal } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 
-const tradingPairs = ['BTC/USDT', 'ETH/USDT', 'SOL/USDT', 'BNB/USDT'];
+const endpointProfiles = getEndpointProfiles();
 
 export default function Home() {
   const [pair, setPair] = useState('BTCUSDT');
-  const { bids, asks, trades, status } = useBinanceData(pair);
-
-  const handlePairChange = (value: string) => {
-    setPair(value);
-  };
+  const [profile, setProfile] = useState<EndpointProfileId>(getDefaultEndpointProfile().id);
+  const { exchangeInfo, error: exchangeInfoError } = useExchangeInfo(profile);
+  // The polled copy tracks halts and breaks; the full list covers the first render.
+  const polledSymbol = useSymbolInfo(profile, pair);
+  const symbolInfo = polledSymbol ?? exchangeInfo?.symbols.find((symbol) => symbol.symbol === pair) ?? null;
+  const marketTrading = symbolInfo ? getMarketStatus(symbolInfo).trading : true;
+  const format = useMemo(() => getSymbolFormat(symbolInfo ?? undefined), [symbolInfo]);
+  const groupingSteps = useMemo(() => (format.tickSize ? getGroupingSteps(format.tickSize) : []), [format.tickSize]);
+  const [groupingChoice, setGroupingChoice] = useState<string | null>(null);
+  const [bookView, setBookView] = useState<'top' | 'full'>('top');
+  const [bookRenderer, setBookRenderer] = useState<'dom' | 'canvas'>('dom');
+  // A step chosen for another pair falls back to raw levels.
+  const grouping = groupingChoice && groupingSteps.includes(groupingChoice) ? groupingChoice : null;
+  const {
+    book,
+    trades,
+    status,
+    statusHistory,
+    audit,
+    crossedBook,
+    retry,
+    upstreamError,
+    reconnect,
+    health,
+    clock,
+    quarantine,
+  } = useBinanceData(pair, profile, { depth: bookView, grouping }, marketTrading);
 
   return (
     <main className="min-h-screen bg-background text-foreground p-4 font-body">
@@ -44,51 +78,86 @@ export default function Home() {
           <h1 className="text-2xl font-bold font-headline">Binance Live Book</h1>
         </div>
         <div className="flex items-center gap-4">
-          <Select onValueChange={handlePairChange} defaultValue={pair}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Select Pair" />
+          <SymbolPicker
+            value={pair}
+            symbols={exchangeInfo?.symbols ?? null}
+            error={exchangeInfoError}
+            onChange={setPair}
+          />
+          <Select onValueChange={(value) => setProfile(value as EndpointProfileId)} defaultValue={profile}>
+            <SelectTrigger className="w-[180px]" aria-label="Endpoint">
+              <SelectValue placeholder="Select Endpoint" />
             </SelectTrigger>
             <SelectContent>
-              {tradingPairs.map((p) => (
-                <SelectItem key={p} value={p.replace('/', '')}>
-                  {p}
+              {endpointProfiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          <div className="flex items-center gap-2">
-            <span
-              className={`h-3 w-3 rounded-full ${
-                status === 'connected'
-                  ? 'bg-green-500'
-                  : status === 'connecting'
-                  ? 'bg-yellow-500 animate-pulse'
-                  : 'bg-red-500'
-              }`}
-            ></span>
-            <span className="text-sm capitalize text-muted-foreground">{status}</span>
-          </div>
+          {retry && <RetryCountdown retry={retry} onReconnect={reconnect} />}
+          <ConnectionStatus status={status} history={statusHistory} />
+          <StreamHealthPanel health={health} />
+          <DiagnosticsPanel clock={clock} health={health} audit={audit} quarantine={quarantine} />
         </div>
       </header>
 
-      {status === 'error' && (
-        <Alert variant="destructive" className="mb-4">
-          <Terminal className="h-4 w-4" />
-          <AlertTitle>Connection Error</AlertTitle>
-          <AlertDescription>
-            Could not connect to the Binance WebSocket API. Please check your network connection and try again.
-          </AlertDescription>
-        </Alert>
-      )}
+      <MarketStatusAlert symbol={symbolInfo} />
+      <ConnectionAlert
+        status={status}
+        lastTransition={statusHistory[statusHistory.length - 1]}
+        crossedBook={crossedBook}
+        upstreamError={upstreamError}
+        marketTrading={marketTrading}
+      />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         <div className="lg:col-span-2">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Order Book</CardTitle>
+              <div className="flex items-center gap-2">
+                <Select value={bookView} onValueChange={(value) => setBookView(value as 'top' | 'full')}>
+                  <SelectTrigger className="w-[130px] h-8" aria-label="Order book view">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="top">Top 20</SelectItem>
+                    <SelectItem value="full">Full depth</SelectItem>
+                  </SelectContent>
+                </Select>
+                {bookView === 'top' && (
+                  <Select value={bookRenderer} onValueChange={(value) => setBookRenderer(value as 'dom' | 'canvas')}>
+                    <SelectTrigger className="w-[110px] h-8" aria-label="Order book renderer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dom">DOM</SelectItem>
+                      <SelectItem value="canvas">Canvas</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <OrderBookGrouping steps={groupingSteps} value={grouping} onChange={setGroupingChoice} />
+                {audit && (
+                  <Badge
+                    variant={audit.mismatches.length > 0 ? 'destructive' : 'secondary'}
+                    title={`Audited ${audit.levelsCompared} levels at update ${audit.comparedUpdateId} (${new Date(audit.timestamp).toLocaleTimeString()})`}
+                  >
+                    {audit.mismatches.length > 0
+                      ? `Audit: ${audit.mismatches.length} mismatched levels`
+                      : 'Audit OK'}
+                  </Badge>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
-              <OrderBook bids={bids} asks={asks} />
+              <OrderBook
+                book={book}
+                format={format}
+                view={bookView}
+                renderer={bookRenderer}
+              />
             </CardContent>
           </Card>
         </div>
@@ -98,7 +167,7 @@ export default function Home() {
               <CardTitle>Recent Trades</CardTitle>
             </CardHeader>
             <CardContent>
-              <RecentTrades trades={trades} />
+              <RecentTrades trades={trades} clockOffsetMs={clock?.offsetMs ?? 0} format={format} />
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,161 @@
+"use client";
+
+import type { ConnectionStatus } from '@/lib/types';
+import type { StatusTransition } from '@/lib/sync-state-machine';
+import type { CrossedBook } from '@/lib/order-book-engine';
+import type { UpstreamErrorInfo } from '@/lib/upstream-error';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Terminal } from 'lucide-react';
+
+interface ConnectionAlertProps {
+  status: ConnectionStatus;
+  lastTransition?: StatusTransition;
+  crossedBook?: CrossedBook | null;
+  upstreamError?: UpstreamErrorInfo | null;
+  marketTrading?: boolean; // A silent stream is expected while the market is not trading
+}
+
+interface AlertContent {
+  title: string;
+  description: string;
+  destructive: boolean;
+}
+
+const alertContent = (status: ConnectionStatus, reason?: string): AlertContent | null => {
+  switch (status) {
+    case 'error':
+      return {
+        title: 'Connection Error',
+        description: reason
+          ? `${reason}. Retrying automatically.`
+          : 'Could not reach Binance. Please check your network connection; retrying automatically.',
+        destructive: true,
+      };
+    case 'disconnected':
+      return {
+        title: 'Disconnected',
+        description: 'The Binance stream closed. Reconnecting shortly; the last known book is not live.',
+        destructive: true,
+      };
+    case 'resyncing':
+      return {
+        title: 'Resynchronizing Order Book',
+        description: `${reason ? `${reason}. ` : ''}Showing the last known book while a fresh snapshot loads.`,
+        destructive: false,
+      };
+    case 'stale':
+      return {
+        title: 'No Recent Data',
+        description: 'The stream is open but no market data has arrived recently. The book may be out of date.',
+        destructive: false,
+      };
+    case 'backing-off':
+      return {
+        title: 'Retrying Connection',
+        description: `${reason ? `${reason}. ` : ''}Waiting before the next attempt to avoid being rate limited or banned by Binance.`,
+        destructive: false,
+      };
+    case 'geo-blocked':
+      return {
+        title: 'Region Restricted',
+        description: 'Binance refuses service from your current location. Try the Binance.US or Market Data Only endpoint.',
+        destructive: true,
+      };
+    default:
+      return null;
+  }
+};
+
+const crossedContent = (crossedBook: CrossedBook): AlertContent => ({
+  title: `${crossedBook.locked ? 'Locked' : 'Crossed'} Order Book`,
+  description:
+    `Best bid ${crossedBook.bestBid[0]} is at or above best ask ${crossedBook.bestAsk[0]} ` +
+    `(update ${crossedBook.lastUpdateId}). Re-initializing from a fresh snapshot...`,
+  destructive: false,
+});
+
+const retryHint = (retryAfterMs?: number) =>
+  retryAfterMs === undefined
+    ? 'Retrying automatically with increasing delays.'
+    : `Binance asks to wait ${Math.ceil(retryAfterMs / 1000)}s; retrying after that.`;
+
+const upstreamContent = (upstream: UpstreamErrorInfo): AlertContent => {
+  const tried = upstream.hosts.length > 1 ? ` (tried ${upstream.hosts.length} hosts)` : '';
+  switch (upstream.kind) {
+    case 'geo-blocked':
+      return {
+        title: 'Region Restricted',
+        description:
+          `Binance refused the order book request from this region with HTTP ${upstream.status}${tried}. ` +
+          'The snapshot is fetched by this app\'s server, so the server\'s region counts too: deploy it to a ' +
+          'supported region, or switch to the Binance.US or Market Data Only endpoint.',
+        destructive: true,
+      };
+    case 'waf-limited':
+      return {
+        title: 'Blocked by Binance Firewall',
+        description:
+          `Binance's web application firewall rejected the order book request (HTTP 403)${tried}. This is not a ` +
+          'regional block: it usually means too many requests or a request pattern the firewall flags, from this ' +
+          `app's server or network. ${retryHint(upstream.retryAfterMs)} Reduce other traffic to Binance from this network if it persists.`,
+        destructive: true,
+      };
+    case 'banned':
+      return {
+        title: 'IP Address Banned',
+        description:
+          'Binance has temporarily banned this IP address (HTTP 418) for continuing to send requests after ' +
+          `being rate limited. ${retryHint(upstream.retryAfterMs)} Close other tabs or tools polling Binance from this network.`,
+        destructive: true,
+      };
+    case 'rate-limited':
+      return {
+        title: 'Rate Limited',
+        description:
+          `Binance rejected the request for exceeding its request weight limit (HTTP 429). ${retryHint(upstream.retryAfterMs)} ` +
+          'Ignoring this leads to an IP ban.',
+        destructive: false,
+      };
+    case 'unavailable':
+      return {
+        title: 'Binance Unavailable',
+        description:
+          `No Binance API host responded${tried}: ${upstream.message}. ` +
+          'Check your network connection and the Binance status page. Retrying automatically.',
+        destructive: true,
+      };
+    case 'rejected':
+      return {
+        title: 'Request Rejected',
+        description: `Binance rejected the order book request: ${upstream.message}. Check the selected trading pair and endpoint.`,
+        destructive: true,
+      };
+  }
+};
+
+const ConnectionAlert = ({
+  status,
+  lastTransition,
+  crossedBook,
+  upstreamError,
+  marketTrading = true,
+}: ConnectionAlertProps) => {
+  const reason = lastTransition?.to === status ? lastTransition.reason : undefined;
+  if (status === 'stale' && !marketTrading && !crossedBook && !upstreamError) return null;
+  const content = crossedBook
+    ? crossedContent(crossedBook)
+    : upstreamError
+      ? upstreamContent(upstreamError)
+      : alertContent(status, reason);
+  if (!content) return null;
+
+  return (
+    <Alert variant={content.destructive ? 'destructive' : 'default'} className="mb-4">
+      <Terminal className="h-4 w-4" />
+      <AlertTitle>{content.title}</AlertTitle>
+      <AlertDescription>{content.description}</AlertDescription>
+    </Alert>
+  );
+};
+
+export default ConnectionAlert;
@@ -0,0 +1,75 @@
+"use client";
+
+import type { ConnectionStatus as Status } from '@/lib/types';
+import type { StatusTransition } from '@/lib/sync-state-machine';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface ConnectionStatusProps {
+  status: Status;
+  history: StatusTransition[];
+}
+
+export const STATUS_LABELS: Record<Status, string> = {
+  idle: 'Idle',
+  connecting: 'Connecting',
+  'fetching-snapshot': 'Loading snapshot',
+  buffering: 'Buffering',
+  synced: 'Live',
+  resyncing: 'Resyncing',
+  stale: 'Stale',
+  'backing-off': 'Retrying',
+  'geo-blocked': 'Region blocked',
+  disconnected: 'Disconnected',
+  error: 'Error',
+};
+
+const dotClass = (status: Status) => {
+  switch (status) {
+    case 'synced':
+      return 'bg-green-500';
+    case 'connecting':
+    case 'fetching-snapshot':
+    case 'buffering':
+    case 'resyncing':
+      return 'bg-yellow-500 animate-pulse';
+    case 'stale':
+    case 'backing-off':
+      return 'bg-orange-500';
+    case 'idle':
+      return 'bg-muted-foreground';
+    default:
+      return 'bg-red-500';
+  }
+};
+
+const ConnectionStatus = ({ status, history }: ConnectionStatusProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger className="flex items-center gap-2" title="Show connection history">
+        <span className={cn('h-3 w-3 rounded-full', dotClass(status))}></span>
+        <span className="text-sm text-muted-foreground">{STATUS_LABELS[status]}</span>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <h4 className="text-sm font-semibold mb-2">Connection history</h4>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transitions yet.</p>
+        ) : (
+          <ol className="max-h-64 overflow-y-auto space-y-1 text-xs font-mono">
+            {[...history].reverse().map((transition) => (
+              <li key={`${transition.at}-${transition.from}-${transition.to}`} className="flex gap-2">
+                <span className="text-muted-foreground">{new Date(transition.at).toLocaleTimeString()}</span>
+                <span>
+                  {STATUS_LABELS[transition.from]} → {STATUS_LABELS[transition.to]}
+                  {transition.reason && <span className="text-muted-foreground"> ({transition.reason})</span>}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ConnectionStatus;
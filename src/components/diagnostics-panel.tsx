@@ -0,0 +1,111 @@
+"use client";
+
+import type { ClockState } from '@/lib/server-clock';
+import type { StreamHealth } from '@/lib/stream-health';
+import type { AuditReport } from '@/lib/book-auditor';
+import type { HistogramBucket } from '@/lib/histogram';
+import type { QuarantineState } from '@/lib/frame-quarantine';
+import { Bar, BarChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Activity } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+  clock: ClockState | null;
+  health: StreamHealth | null;
+  audit: AuditReport | null;
+  quarantine: QuarantineState | null;
+}
+
+const chartConfig = {
+  count: { label: 'Samples', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const Histogram = ({ title, buckets }: { title: string; buckets: HistogramBucket[] }) => (
+  <section>
+    <h4 className="text-sm font-semibold mb-1">{title}</h4>
+    <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+      <BarChart data={buckets}>
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+      </BarChart>
+    </ChartContainer>
+  </section>
+);
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono">{value}</span>
+  </div>
+);
+
+const DiagnosticsPanel = ({ clock, health, audit, quarantine }: DiagnosticsPanelProps) => {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" title="Diagnostics">
+          <Activity />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Diagnostics</SheetTitle>
+          <SheetDescription>
+            Clock synchronisation, stream latency, book integrity and rejected payloads.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="mt-4 space-y-6">
+          <section className="space-y-1">
+            <h4 className="text-sm font-semibold mb-1">Server clock</h4>
+            <Stat
+              label="Offset (server − local)"
+              value={clock?.synced ? `${Math.round(clock.offsetMs)} ms` : 'Not synced'}
+            />
+            <Stat label="Best round trip" value={clock?.rttMs != null ? `${clock.rttMs} ms` : '–'} />
+            <Stat label="Samples" value={String(clock?.samples.length ?? 0)} />
+          </section>
+          {clock && <Histogram title="Clock offset" buckets={clock.offsetHistogram} />}
+          {clock && <Histogram title="Time request round trip" buckets={clock.rttHistogram} />}
+          {health && <Histogram title="Exchange-to-client lag (server clock)" buckets={health.lagHistogram} />}
+          <section className="space-y-1">
+            <h4 className="text-sm font-semibold mb-1">Book audit</h4>
+            {audit ? (
+              <>
+                <Stat label="Last audit" value={new Date(audit.timestamp).toLocaleTimeString()} />
+                <Stat label="Aligned at update" value={String(audit.comparedUpdateId)} />
+                <Stat label="Levels compared" value={String(audit.levelsCompared)} />
+                <Stat label="Mismatched levels" value={String(audit.mismatches.length)} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">No audit has completed yet.</p>
+            )}
+          </section>
+          <section className="space-y-1">
+            <h4 className="text-sm font-semibold mb-1">Rejected frames</h4>
+            <Stat label="Total" value={String(quarantine?.rejected ?? 0)} />
+            {quarantine &&
+              Object.entries(quarantine.bySource).map(([source, count]) => (
+                <Stat key={source} label={source} value={String(count)} />
+              ))}
+            {quarantine?.recent.map((frame, index) => (
+              <div key={`${frame.at}-${index}`} className="rounded-sm border p-2 text-xs space-y-1">
+                <div className="flex justify-between text-muted-foreground">
+                  <span>{frame.source}</span>
+                  <span>{new Date(frame.at).toLocaleTimeString()}</span>
+                </div>
+                <p>{frame.reason}</p>
+                <pre className="font-mono whitespace-pre-wrap break-all text-muted-foreground">{frame.frame}</pre>
+              </div>
+            ))}
+          </section>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DiagnosticsPanel;
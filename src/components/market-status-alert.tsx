@@ -0,0 +1,29 @@
+"use client";
+
+import type { ExchangeSymbol } from '@/lib/types';
+import { getMarketStatus } from '@/lib/market-status';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { PauseCircle } from 'lucide-react';
+
+interface MarketStatusAlertProps {
+  symbol: ExchangeSymbol | null;
+}
+
+// Explains a quiet book that is caused by the market, not the connection.
+const MarketStatusAlert = ({ symbol }: MarketStatusAlertProps) => {
+  if (!symbol) return null;
+  const market = getMarketStatus(symbol);
+  if (market.trading) return null;
+
+  return (
+    <Alert variant={market.selectable ? 'default' : 'destructive'} className="mb-4">
+      <PauseCircle className="h-4 w-4" />
+      <AlertTitle>
+        {symbol.baseAsset}/{symbol.quoteAsset}: {market.label}
+      </AlertTitle>
+      <AlertDescription>{market.description}</AlertDescription>
+    </Alert>
+  );
+};
+
+export default MarketStatusAlert;
@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { OrderBookEntry } from '@/lib/types';
+import { Decimal, scaleOf } from '@/lib/decimal';
+import { assetLabel, type SymbolFormat } from '@/lib/symbol-format';
+import { accumulateLevels, type BookSide, type DepthLevel } from '@/lib/depth-levels';
+import { Skeleton } from './ui/skeleton';
+
+interface OrderBookCanvasProps {
+  data: readonly OrderBookEntry[]; // Top levels, best price first, already grouped
+  type: BookSide;
+  title: string;
+  isLoading: boolean;
+  format: SymbolFormat;
+  grouping: string | null; // Step the levels are grouped by, null for raw levels
+}
+
+// Geometry of OrderBookTable, so both renderers line up pixel for pixel.
+const HEADER_HEIGHT = 49; // h-12 header cells plus the header row border
+const ROW_HEIGHT = 33; // p-1.5 cells around a 20px line, plus the row border
+const CELL_PADDING = 6; // p-1.5
+const FLASH_MS = 500; // Same as the recent trades flash
+
+interface Palette {
+  side: string; // Space-separated HSL channels of the bid or ask colour
+  foreground: string;
+  muted: string;
+  border: string;
+  fontFamily: string;
+}
+
+// Colours come from the theme's CSS variables, so dark mode and theme changes apply to the canvas too.
+const readPalette = (element: HTMLElement, type: BookSide): Palette => {
+  const style = getComputedStyle(element);
+  const channels = (name: string) => style.getPropertyValue(name).trim();
+  return {
+    side: channels(type === 'bids' ? '--bid' : '--ask'),
+    foreground: `hsl(${channels('--foreground')})`,
+    muted: `hsl(${channels('--muted-foreground')})`,
+    border: `hsl(${channels('--border')})`,
+    fontFamily: style.fontFamily,
+  };
+};
+
+interface RenderedRow {
+  price: string;
+  amount: string;
+  total: string;
+  depth: number;
+  flashedAt: number | null; // When the amount at this price last changed
+}
+
+const drawBook = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  headers: string[],
+  rows: RenderedRow[],
+  palette: Palette,
+  now: number
+) => {
+  const columnWidth = width / 3;
+  const height = HEADER_HEIGHT + rows.length * ROW_HEIGHT;
+  context.clearRect(0, 0, width, height);
+  context.textBaseline = 'middle';
+
+  // Left-aligned price column, right-aligned amount and total columns.
+  const drawCells = (cells: string[], y: number, colours: string[]) => {
+    cells.forEach((text, column) => {
+      context.fillStyle = colours[column];
+      if (column === 0) {
+        context.textAlign = 'left';
+        context.fillText(text, CELL_PADDING, y);
+      } else {
+        context.textAlign = 'right';
+        context.fillText(text, columnWidth * (column + 1) - CELL_PADDING, y);
+      }
+    });
+  };
+
+  context.font = `500 12px ${palette.fontFamily}`;
+  drawCells(headers, (HEADER_HEIGHT - 1) / 2, [palette.muted, palette.muted, palette.muted]);
+  context.fillStyle = palette.border;
+  context.fillRect(0, HEADER_HEIGHT - 1, width, 1);
+
+  context.font = `14px ${palette.fontFamily}`;
+  const sideColour = `hsl(${palette.side})`;
+  rows.forEach((row, index) => {
+    const top = HEADER_HEIGHT + index * ROW_HEIGHT;
+    const cellHeight = ROW_HEIGHT - 1;
+
+    const barWidth = (width * row.depth) / 100;
+    context.fillStyle = `hsl(${palette.side} / 0.2)`;
+    context.fillRect(width - barWidth, top, barWidth, cellHeight);
+
+    if (row.flashedAt !== null && now - row.flashedAt < FLASH_MS) {
+      const strength = 1 - (now - row.flashedAt) / FLASH_MS;
+      context.fillStyle = `hsl(${palette.side} / ${(0.3 * strength).toFixed(3)})`;
+      context.fillRect(0, top, width, cellHeight);
+    }
+
+    drawCells([row.price, row.amount, row.total], top + cellHeight / 2, [
+      sideColour,
+      palette.foreground,
+      palette.foreground,
+    ]);
+
+    // The last row has no bottom border, as in the table body.
+    if (index < rows.length - 1) {
+      context.fillStyle = palette.border;
+      context.fillRect(0, top + cellHeight, width, 1);
+    }
+  });
+};
+
+/**
+ * Draws the same table as OrderBookTable onto a single canvas. Updates repaint
+ * one element instead of reconciling a row per level, and levels whose amount
+ * changed flash briefly.
+ */
+const OrderBookCanvas = ({ data, type, title, isLoading, format, grouping }: OrderBookCanvasProps) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  // Last amount and flash start per price, carried across updates.
+  const previousRef = useRef(new Map<string, { amount: string; flashedAt: number | null }>());
+
+  const levels: DepthLevel[] = useMemo(() => accumulateLevels(data), [data]);
+  const priceDecimals = grouping ? scaleOf(grouping) : format.priceDecimals;
+
+  const headers = useMemo(
+    () => [
+      assetLabel('Price', format.quoteAsset),
+      assetLabel('Amount', format.baseAsset),
+      assetLabel('Total', format.baseAsset),
+    ],
+    [format.quoteAsset, format.baseAsset]
+  );
+
+  const rows: RenderedRow[] = useMemo(() => {
+    const previous = previousRef.current;
+    // With no price in common (first frame, new pair or new grouping) every level would flash.
+    const canFlash = levels.some((level) => previous.has(level.price));
+    const now = performance.now();
+    const next = new Map<string, { amount: string; flashedAt: number | null }>();
+    const rendered = levels.map((level) => {
+      const before = previous.get(level.price);
+      const flashedAt = canFlash && before?.amount !== level.amount ? now : (before?.flashedAt ?? null);
+      next.set(level.price, { amount: level.amount, flashedAt });
+      return {
+        price: Decimal.parse(level.price).toFixed(priceDecimals),
+        amount: Decimal.parse(level.amount).toFixed(format.quantityDecimals),
+        total: level.total.toFixed(format.quantityDecimals),
+        depth: level.depth,
+        flashedAt,
+      };
+    });
+    previousRef.current = next;
+    return rendered;
+  }, [levels, priceDecimals, format.quantityDecimals]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, [isLoading]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    // Without the last row's border, like the table body.
+    const height = HEADER_HEIGHT + Math.max(0, rows.length * ROW_HEIGHT - 1);
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    const palette = readPalette(canvas, type);
+    let frame = 0;
+    // Repaint every animation frame only while a flash is fading.
+    const paint = () => {
+      const now = performance.now();
+      drawBook(context, width, headers, rows, palette, now);
+      if (rows.some((row) => row.flashedAt !== null && now - row.flashedAt < FLASH_MS)) {
+        frame = requestAnimationFrame(paint);
+      }
+    };
+    paint();
+    return () => cancelAnimationFrame(frame);
+  }, [rows, headers, width, type]);
+
+  if (isLoading) {
+    return (
+      <div>
+        <h3 className="text-lg font-semibold mb-2">{title}</h3>
+        <div className="space-y-2">
+            {[...Array(10)].map((_, i) => <Skeleton key={i} className="h-6 w-full" />)}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      <div ref={wrapperRef} className="w-full">
+        <canvas
+          ref={canvasRef}
+          role="img"
+          aria-label={
+            rows.length > 0 ? `${title}: best ${rows[0].price}, ${rows.length} levels` : `${title}: no levels`
+          }
+          className="block font-mono"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OrderBookCanvas;
@@ -0,0 +1,137 @@
+"use client";
+
+import { memo, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { BookSide, DepthLevel } from '@/lib/depth-levels';
+import { Decimal } from '@/lib/decimal';
+import { assetLabel, type SymbolFormat } from '@/lib/symbol-format';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { cn } from '@/lib/utils';
+
+export interface JumpTarget {
+  index: number;
+  price: string;
+  requestedAt: number; // Makes repeated jumps to the same level distinct
+}
+
+interface OrderBookDepthListProps {
+  levels: DepthLevel[]; // Best price first, totals already accumulated
+  type: BookSide;
+  title: string;
+  format: SymbolFormat;
+  priceDecimals: number;
+  jumpTo: JumpTarget | null;
+}
+
+const ROW_HEIGHT = 28;
+const HEADER_HEIGHT = 32;
+const HIGHLIGHT_MS = 1500;
+
+interface DepthListRowProps {
+  price: string;
+  amount: string;
+  total: string;
+  depth: number;
+  top: number;
+  type: BookSide;
+  highlighted: boolean;
+}
+
+// Props are primitives so unchanged rows skip rendering while the book updates around them.
+const DepthListRow = memo(({ price, amount, total, depth, top, type, highlighted }: DepthListRowProps) => {
+  const priceColor = type === 'bids' ? 'text-bid' : 'text-ask';
+  const depthBg = type === 'bids' ? 'bg-bid/20' : 'bg-ask/20';
+
+  return (
+    <div
+      role="row"
+      className={cn(
+        'absolute left-0 right-0 grid grid-cols-3 items-center border-b font-mono text-sm',
+        highlighted && 'bg-accent/30'
+      )}
+      style={{ top, height: ROW_HEIGHT }}
+    >
+      <span role="cell" className={`px-1.5 ${priceColor} z-10`}>{price}</span>
+      <span role="cell" className="px-1.5 text-right z-10">{amount}</span>
+      <span role="cell" className="px-1.5 text-right z-10">{total}</span>
+      <span className={`absolute top-0 bottom-0 right-0 ${depthBg} z-0`} style={{ width: `${depth}%` }} />
+    </div>
+  );
+});
+DepthListRow.displayName = 'DepthListRow';
+
+const OrderBookDepthList = ({ levels, type, title, format, priceDecimals, jumpTo }: OrderBookDepthListProps) => {
+  const { containerRef, onScroll, start, end, totalHeight, scrollToIndex, shiftRows } = useVirtualRows({
+    count: levels.length,
+    rowHeight: ROW_HEIGHT,
+    offset: HEADER_HEIGHT,
+  });
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  // The level at the top of the viewport, kept in place when levels are added or removed above it.
+  const anchorRef = useRef<{ index: number; price: string } | null>(null);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const anchor = anchorRef.current;
+    // At the very top the list follows the best price instead.
+    if (anchor && container.scrollTop > HEADER_HEIGHT) {
+      const index = levels.findIndex((level) => level.price === anchor.price);
+      if (index !== -1) shiftRows(index - anchor.index);
+    }
+    const index = Math.floor(Math.max(0, container.scrollTop - HEADER_HEIGHT) / ROW_HEIGHT);
+    anchorRef.current = levels[index] ? { index, price: levels[index].price } : null;
+  }, [levels, start, containerRef, shiftRows]);
+
+  useEffect(() => {
+    if (!jumpTo) return;
+    scrollToIndex(jumpTo.index);
+    setHighlighted(jumpTo.price);
+    const timer = setTimeout(() => setHighlighted(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [jumpTo, scrollToIndex]);
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        role="table"
+        aria-label={`${title}, ${levels.length} levels`}
+        className="relative h-[32rem] overflow-y-auto"
+      >
+        <div
+          role="row"
+          className={cn(
+            'sticky top-0 z-20 grid grid-cols-3 items-center border-b bg-card',
+            'text-xs font-medium text-muted-foreground'
+          )}
+          style={{ height: HEADER_HEIGHT }}
+        >
+          <span role="columnheader" className="px-1.5">{assetLabel('Price', format.quoteAsset)}</span>
+          <span role="columnheader" className="px-1.5 text-right">{assetLabel('Amount', format.baseAsset)}</span>
+          <span role="columnheader" className="px-1.5 text-right">{assetLabel('Total', format.baseAsset)}</span>
+        </div>
+        {levels.length === 0 && (
+          <p className="p-2 text-sm text-muted-foreground">No levels in this range.</p>
+        )}
+        <div className="relative" style={{ height: totalHeight }}>
+          {levels.slice(start, end).map((level, offset) => (
+            <DepthListRow
+              key={level.price}
+              price={Decimal.parse(level.price).toFixed(priceDecimals)}
+              amount={Decimal.parse(level.amount).toFixed(format.quantityDecimals)}
+              total={level.total.toFixed(format.quantityDecimals)}
+              depth={level.depth}
+              top={(start + offset) * ROW_HEIGHT}
+              type={type}
+              highlighted={level.price === highlighted}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderBookDepthList;
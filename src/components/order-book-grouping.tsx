@@ -0,0 +1,39 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface OrderBookGroupingProps {
+  steps: string[]; // Finest first; the first step is the raw tick size
+  value: string | null; // null for raw levels
+  onChange: (step: string | null) => void;
+}
+
+const OrderBookGrouping = ({ steps, value, onChange }: OrderBookGroupingProps) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <Select
+      value={value ?? steps[0]}
+      onValueChange={(step) => onChange(step === steps[0] ? null : step)}
+    >
+      <SelectTrigger className="w-[120px] h-8" aria-label="Price grouping">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {steps.map((step) => (
+          <SelectItem key={step} value={step}>
+            {step}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default OrderBookGrouping;
@@ -9,31 +9,37 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import type { OrderBookEntry } from '@/lib/types';
+import { Decimal, scaleOf } from '@/lib/decimal';
+import { accumulateLevels, type BookSide, type DepthLevel } from '@/lib/depth-levels';
+import { assetLabel, type SymbolFormat } from '@/lib/symbol-format';
 import { Skeleton } from './ui/skeleton';
 
 interface OrderBookTableProps {
-  data: Map<string, string>;
-  type: 'bids' | 'asks';
+  data: readonly OrderBookEntry[]; // Top levels, best price first, already grouped
+  type: BookSide;
   title: string;
   isLoading: boolean;
+  format: SymbolFormat;
+  grouping: string | null; // Step the levels are grouped by, null for raw levels
 }
 
-interface ProcessedEntry {
-  price: string;
-  amount: string;
-  total: number;
-  depth: number;
+interface OrderBookRowProps {
+  entry: DepthLevel;
+  type: BookSide;
+  priceDecimals: number;
+  quantityDecimals: number;
 }
 
-const OrderBookRow = memo(({ entry, type }: { entry: ProcessedEntry; type: 'bids' | 'asks' }) => {
+const OrderBookRow = memo(({ entry, type, priceDecimals, quantityDecimals }: OrderBookRowProps) => {
   const priceColor = type === 'bids' ? 'text-bid' : 'text-ask';
   const depthBg = type === 'bids' ? 'bg-bid/20' : 'bg-ask/20';
   
   return (
     <TableRow className="relative font-mono text-sm">
-      <TableCell className={`p-1.5 ${priceColor} z-10`}>{parseFloat(entry.price).toFixed(2)}</TableCell>
-      <TableCell className="p-1.5 text-right z-10">{parseFloat(entry.amount).toFixed(4)}</TableCell>
-      <TableCell className="p-1.5 text-right z-10">{entry.total.toFixed(4)}</TableCell>
+      <TableCell className={`p-1.5 ${priceColor} z-10`}>{Decimal.parse(entry.price).toFixed(priceDecimals)}</TableCell>
+      <TableCell className="p-1.5 text-right z-10">{Decimal.parse(entry.amount).toFixed(quantityDecimals)}</TableCell>
+      <TableCell className="p-1.5 text-right z-10">{entry.total.toFixed(quantityDecimals)}</TableCell>
       <td
         className={`absolute top-0 bottom-0 right-0 ${depthBg} z-0`}
         style={{ width: `${entry.depth}%` }}
@@ -44,35 +50,16 @@ const OrderBookRow = memo(({ entry, type }: { entry: ProcessedEntry; type: 'bids
 OrderBookRow.displayName = 'OrderBookRow';
 
 
-const OrderBookTable = ({ data, type, title, isLoading }: OrderBookTableProps) => {
-  const processedData: ProcessedEntry[] = useMemo(() => {
-    const entries = Array.from(data.entries());
-    
-    const sortedEntries = entries.sort(([priceA], [priceB]) => {
-      return type === 'bids'
-        ? parseFloat(priceB) - parseFloat(priceA)
-        : parseFloat(priceA) - parseFloat(priceB);
-    }).slice(0, 20); // Limit to top 20 for performance
+const OrderBookTable = ({ data, type, title, isLoading, format, grouping }: OrderBookTableProps) => {
+  // The feed worker already cut the book to the top 20 levels
+  const processedData: DepthLevel[] = useMemo(() => accumulateLevels(data), [data]);
+  const priceDecimals = grouping ? scaleOf(grouping) : format.priceDecimals;
 
-    let cumulativeTotal = 0;
-    const totals = sortedEntries.map(([, amount]) => {
-      cumulativeTotal += parseFloat(amount);
-      return cumulativeTotal;
-    });
-
-    const maxTotal = totals[totals.length - 1] || 0;
-
-    return sortedEntries.map(([price, amount], index) => ({
-      price,
-      amount,
-      total: totals[index],
-      depth: maxTotal > 0 ? (totals[index] / maxTotal) * 100 : 0,
-    }));
-  }, [data, type]);
-
-  const headers = type === 'bids'
-    ? ['Price (USDT)', 'Amount (BTC)', 'Total (BTC)']
-    : ['Price (USDT)', 'Amount (BTC)', 'Total (BTC)'];
+  const headers = [
+    assetLabel('Price', format.quoteAsset),
+    assetLabel('Amount', format.baseAsset),
+    assetLabel('Total', format.baseAsset),
+  ];
 
   if (isLoading) {
     return (
@@ -89,7 +76,8 @@ const OrderBookTable = ({ data, type, title, isLoading }: OrderBookTableProps) =
   return (
     <div>
       <h3 className="text-lg font-semibold mb-2">{title}</h3>
-      <Table>
+      {/* Fixed, equal columns; the canvas renderer draws the same grid. */}
+      <Table className="table-fixed">
         <TableHeader>
           <TableRow>
             <TableHead className={`p-1.5 text-xs ${type === 'bids' ? 'text-left' : 'text-left'}`}>{headers[0]}</TableHead>
@@ -99,7 +87,13 @@ const OrderBookTable = ({ data, type, title, isLoading }: OrderBookTableProps) =
         </TableHeader>
         <TableBody>
           {processedData.map((entry) => (
-            <OrderBookRow key={entry.price} entry={entry} type={type} />
+            <OrderBookRow
+              key={entry.price}
+              entry={entry}
+              type={type}
+              priceDecimals={priceDecimals}
+              quantityDecimals={format.quantityDecimals}
+            />
           ))}
         </TableBody>
       </Table>
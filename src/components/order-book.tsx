@@ -1,50 +1,179 @@
 "use client";
 
-import { useMemo } from 'react';
+import { useMemo, useState, type FormEvent } from 'react';
 import OrderBookTable from './order-book-table';
+import OrderBookCanvas from './order-book-canvas';
+import OrderBookDepthList, { type JumpTarget } from './order-book-depth-list';
 import type { OrderBookEntry } from '@/lib/types';
+import type { BookLevels } from '@/lib/feed-protocol';
+import { Decimal, scaleOf } from '@/lib/decimal';
+import type { SymbolFormat } from '@/lib/symbol-format';
+import { accumulateLevels, filterPriceBand, findPriceIndex, TOP_LEVELS, type BookSide } from '@/lib/depth-levels';
 import { Skeleton } from './ui/skeleton';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
 
 interface OrderBookProps {
-  bids: Map<string, string>;
-  asks: Map<string, string>;
+  book: BookLevels; // Already grouped and cut to the view by the feed worker
+  format: SymbolFormat;
+  view: 'top' | 'full'; // Top 20 levels per side, or the whole book in a scrollable list
+  renderer: 'dom' | 'canvas'; // How the top 20 view is drawn
 }
 
-const OrderBook = ({ bids, asks }: OrderBookProps) => {
-  const { highestBid, lowestAsk, spread, spreadPercentage } = useMemo(() => {
-    const sortedBids = Array.from(bids.keys()).sort((a, b) => parseFloat(b) - parseFloat(a));
-    const sortedAsks = Array.from(asks.keys()).sort((a, b) => parseFloat(a) - parseFloat(b));
+const PRICE_BANDS = ['0.5', '1', '2', '5', '10']; // ± percent around the mid price
+const ALL_LEVELS = 'all';
 
-    const highestBid = sortedBids.length > 0 ? parseFloat(sortedBids[0]) : 0;
-    const lowestAsk = sortedAsks.length > 0 ? parseFloat(sortedAsks[0]) : 0;
+// Band-filtered levels with totals for one side of the full-depth view.
+const useDepthLevels = (
+  data: readonly OrderBookEntry[],
+  side: BookSide,
+  midPrice: number | null,
+  band: string,
+  enabled: boolean
+) =>
+  useMemo(() => {
+    if (!enabled) return [];
+    const banded =
+      band !== ALL_LEVELS && midPrice !== null ? filterPriceBand(data, side, midPrice, Number(band)) : data;
+    return accumulateLevels(banded);
+  }, [data, side, midPrice, band, enabled]);
 
-    if (highestBid > 0 && lowestAsk > 0) {
-      const spread = lowestAsk - highestBid;
-      const spreadPercentage = (spread / lowestAsk) * 100;
+const OrderBook = ({ book, format, view, renderer }: OrderBookProps) => {
+  const { bids, asks, bestBid, bestAsk, grouping } = book;
+  const TopLevels = renderer === 'canvas' ? OrderBookCanvas : OrderBookTable;
+  const [band, setBand] = useState(ALL_LEVELS);
+  const [jumpPrice, setJumpPrice] = useState('');
+  const [jumpTarget, setJumpTarget] = useState<{ side: BookSide; target: JumpTarget } | null>(null);
+
+  const { spread, spreadPercentage, crossed } = useMemo(() => {
+    // From the ungrouped best prices, since grouped levels round away from the touch.
+    if (bestBid !== null && bestAsk !== null) {
+      const highestBid = Decimal.parse(bestBid);
+      const lowestAsk = Decimal.parse(bestAsk);
+      const spread = lowestAsk.sub(highestBid);
+      const spreadPercentage = (spread.toNumber() / lowestAsk.toNumber()) * 100;
       return {
-        highestBid,
-        lowestAsk,
-        spread: spread.toFixed(2),
+        spread: spread.toFixed(format.priceDecimals),
         spreadPercentage: spreadPercentage.toFixed(4),
+        crossed: spread.isNegative() ? 'crossed' : spread.isZero() ? 'locked' : null,
       };
     }
 
-    return { highestBid: 0, lowestAsk: 0, spread: '0.00', spreadPercentage: '0.0000' };
-  }, [bids, asks]);
+    return { spread: Decimal.ZERO.toFixed(format.priceDecimals), spreadPercentage: '0.0000', crossed: null };
+  }, [bestBid, bestAsk, format.priceDecimals]);
+
+  const isLoading = bids.length === 0 && asks.length === 0;
+  const midPrice = bestBid !== null && bestAsk !== null ? (Number(bestBid) + Number(bestAsk)) / 2 : null;
+  // Until the worker answers a view change, the book still holds the previous view's levels.
+  const fullBook = view === 'full' && book.depth === 'full';
+  const bidLevels = useDepthLevels(bids, 'bids', midPrice, band, fullBook);
+  const askLevels = useDepthLevels(asks, 'asks', midPrice, band, fullBook);
+  const topBids = useMemo(() => bids.slice(0, TOP_LEVELS), [bids]);
+  const topAsks = useMemo(() => asks.slice(0, TOP_LEVELS), [asks]);
+  const priceDecimals = grouping ? scaleOf(grouping) : format.priceDecimals;
 
-  const isLoading = bids.size === 0 && asks.size === 0;
+  // Prices at or above the best ask are looked up among the asks, everything else among the bids.
+  const jump = (event: FormEvent) => {
+    event.preventDefault();
+    let price: Decimal;
+    try {
+      price = Decimal.parse(jumpPrice);
+    } catch {
+      return;
+    }
+    const side: BookSide =
+      askLevels.length > 0 && price.compare(Decimal.parse(askLevels[0].price)) >= 0 ? 'asks' : 'bids';
+    const levels = side === 'asks' ? askLevels : bidLevels;
+    const index = findPriceIndex(levels, side, price);
+    if (index === -1) return;
+    setJumpTarget({ side, target: { index, price: levels[index].price, requestedAt: Date.now() } });
+  };
 
   return (
     <div className="flex flex-col gap-4">
+      {view === 'full' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <form onSubmit={jump} className="flex items-center gap-2">
+            <Input
+              value={jumpPrice}
+              onChange={(event) => setJumpPrice(event.target.value)}
+              placeholder="Jump to price"
+              inputMode="decimal"
+              aria-label="Jump to price"
+              className="h-8 w-40 font-mono"
+            />
+            <Button type="submit" variant="outline" size="sm" disabled={isLoading}>
+              Go
+            </Button>
+          </form>
+          <Select value={band} onValueChange={setBand}>
+            <SelectTrigger className="w-[140px] h-8" aria-label="Price band">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LEVELS}>All levels</SelectItem>
+              {PRICE_BANDS.map((percent) => (
+                <SelectItem key={percent} value={percent}>
+                  ±{percent}% of mid
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <OrderBookTable data={bids} type="bids" title="Bids" isLoading={isLoading} />
-        <OrderBookTable data={asks} type="asks" title="Asks" isLoading={isLoading} />
+        {fullBook && !isLoading ? (
+          <>
+            <OrderBookDepthList
+              levels={bidLevels}
+              type="bids"
+              title="Bids"
+              format={format}
+              priceDecimals={priceDecimals}
+              jumpTo={jumpTarget?.side === 'bids' ? jumpTarget.target : null}
+            />
+            <OrderBookDepthList
+              levels={askLevels}
+              type="asks"
+              title="Asks"
+              format={format}
+              priceDecimals={priceDecimals}
+              jumpTo={jumpTarget?.side === 'asks' ? jumpTarget.target : null}
+            />
+          </>
+        ) : (
+          <>
+            <TopLevels
+              data={topBids}
+              type="bids"
+              title="Bids"
+              isLoading={isLoading}
+              format={format}
+              grouping={grouping}
+            />
+            <TopLevels
+              data={topAsks}
+              type="asks"
+              title="Asks"
+              isLoading={isLoading}
+              format={format}
+              grouping={grouping}
+            />
+          </>
+        )}
       </div>
       <div className="flex justify-center items-center p-2 rounded-lg bg-card-alt">
         {isLoading ? <Skeleton className="h-6 w-48" /> :
         <div className="text-center">
-            <span className="text-lg font-mono">
-                Spread: {spread} ({spreadPercentage}%)
+            <span className={`text-lg font-mono ${crossed ? 'text-destructive' : ''}`}>
+                {crossed ? `Book ${crossed}: ${spread}` : `Spread: ${spread} (${spreadPercentage}%)`}
             </span>
         </div>
         }
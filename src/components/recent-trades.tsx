@@ -2,6 +2,8 @@
 
 import { memo, useEffect, useState } from 'react';
 import type { Trade } from '@/lib/types';
+import { Decimal } from '@/lib/decimal';
+import { assetLabel, type SymbolFormat } from '@/lib/symbol-format';
 import {
   Table,
   TableBody,
@@ -15,9 +17,22 @@ import { cn } from '@/lib/utils';
 
 interface RecentTradesProps {
   trades: Trade[];
+  clockOffsetMs: number; // Server time minus local time
+  format: SymbolFormat;
 }
 
-const TradeRow = memo(({ trade, isNew }: { trade: Trade; isNew: boolean }) => {
+// Trade times are already exchange times, so they are shown as-is rather than on the uncorrected local clock.
+const formatTradeTime = (time: number) => new Date(time).toLocaleTimeString();
+
+interface TradeRowProps {
+  trade: Trade;
+  isNew: boolean;
+  delayMs: number | undefined; // From the trade to its first render, on the server clock
+  priceDecimals: number;
+  quantityDecimals: number;
+}
+
+const TradeRow = memo(({ trade, isNew, delayMs, priceDecimals, quantityDecimals }: TradeRowProps) => {
     const [flash, setFlash] = useState(false);
     const isBuy = !trade.m; // If not maker, it's a market buy
 
@@ -36,26 +51,33 @@ const TradeRow = memo(({ trade, isNew }: { trade: Trade; isNew: boolean }) => {
             flash && !isBuy && 'bg-ask/30'
         )}>
             <TableCell className={`p-1.5 ${isBuy ? 'text-bid' : 'text-ask'}`}>
-                {parseFloat(trade.p).toFixed(2)}
+                {Decimal.parse(trade.p).toFixed(priceDecimals)}
             </TableCell>
-            <TableCell className="p-1.5 text-right">{parseFloat(trade.q).toFixed(4)}</TableCell>
-            <TableCell className="p-1.5 text-right text-muted-foreground">
-                {new Date(trade.T).toLocaleTimeString()}
+            <TableCell className="p-1.5 text-right">{Decimal.parse(trade.q).toFixed(quantityDecimals)}</TableCell>
+            <TableCell
+                className="p-1.5 text-right text-muted-foreground"
+                title={delayMs === undefined ? undefined : `Shown ${delayMs} ms after the trade (server clock)`}
+            >
+                {formatTradeTime(trade.T)}
             </TableCell>
         </TableRow>
     );
 });
 TradeRow.displayName = 'TradeRow';
 
-const RecentTrades = ({ trades }: RecentTradesProps) => {
+const RecentTrades = ({ trades, clockOffsetMs, format }: RecentTradesProps) => {
   const [previousTradeIds, setPreviousTradeIds] = useState(new Set<number>());
+  // Milliseconds from each listed trade to its first render, by aggregate trade id.
+  const [delays, setDelays] = useState(new Map<number, number>());
 
   useEffect(() => {
     if (trades.length > 0) {
       const newIds = new Set(trades.map(t => t.a));
       setPreviousTradeIds(newIds);
+      const now = Date.now() + clockOffsetMs;
+      setDelays((previous) => new Map(trades.map((t) => [t.a, previous.get(t.a) ?? Math.max(0, now - t.T)])));
     }
-  }, [trades]);
+  }, [trades, clockOffsetMs]);
 
   if (trades.length === 0) {
       return (
@@ -70,8 +92,8 @@ const RecentTrades = ({ trades }: RecentTradesProps) => {
         <Table>
             <TableHeader>
                 <TableRow>
-                    <TableHead className="p-1.5 text-xs">Price (USDT)</TableHead>
-                    <TableHead className="p-1.5 text-xs text-right">Amount (BTC)</TableHead>
+                    <TableHead className="p-1.5 text-xs">{assetLabel('Price', format.quoteAsset)}</TableHead>
+                    <TableHead className="p-1.5 text-xs text-right">{assetLabel('Amount', format.baseAsset)}</TableHead>
                     <TableHead className="p-1.5 text-xs text-right">Time</TableHead>
                 </TableRow>
             </TableHeader>
@@ -81,6 +103,9 @@ const RecentTrades = ({ trades }: RecentTradesProps) => {
                         key={trade.a} 
                         trade={trade}
                         isNew={index === 0 && !previousTradeIds.has(trade.a)}
+                        delayMs={delays.get(trade.a)}
+                        priceDecimals={format.priceDecimals}
+                        quantityDecimals={format.quantityDecimals}
                     />
                 ))}
             </TableBody>
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { RetryState } from '@/lib/feed-protocol';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+
+interface RetryCountdownProps {
+  retry: RetryState;
+  onReconnect: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
+};
+
+const RetryCountdown = ({ retry, onReconnect }: RetryCountdownProps) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = formatRemaining(retry.at - now);
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <span>
+        {retry.circuitOpen
+          ? `Paused after ${retry.attempt} failures, retrying in ${remaining}`
+          : `Retry ${retry.attempt} in ${remaining}`}
+      </span>
+      <Button variant="outline" size="sm" onClick={onReconnect}>
+        <RefreshCw />
+        Reconnect now
+      </Button>
+    </div>
+  );
+};
+
+export default RetryCountdown;
@@ -0,0 +1,64 @@
+"use client";
+
+import type { StreamHealth } from '@/lib/stream-health';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface StreamHealthPanelProps {
+  health: StreamHealth | null;
+}
+
+const formatLag = (lagMs: number | null) => (lagMs === null ? '–' : `${Math.round(lagMs)} ms`);
+
+const formatAge = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const StreamHealthPanel = ({ health }: StreamHealthPanelProps) => {
+  if (!health) return null;
+
+  const totalRate = health.streams.reduce((sum, stream) => sum + stream.messagesPerSecond, 0);
+  const lags = health.streams.map((stream) => stream.lagMs).filter((lag): lag is number => lag !== null);
+  const worstLag = lags.length > 0 ? Math.max(...lags) : null;
+
+  return (
+    <Popover>
+      <PopoverTrigger
+        className={cn('text-xs font-mono text-muted-foreground', health.stale && 'text-orange-500')}
+        title="Show stream health"
+      >
+        lag {formatLag(worstLag)} · {totalRate.toFixed(1)} msg/s · {formatAge(health.sinceLastMessageMs)} ago
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <h4 className="text-sm font-semibold mb-2">Stream health</h4>
+        <table className="w-full text-xs font-mono">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">Stream</th>
+              <th className="text-right font-normal">Rate</th>
+              <th className="text-right font-normal">Lag</th>
+              <th className="text-right font-normal">Last</th>
+            </tr>
+          </thead>
+          <tbody>
+            {health.streams.map((stream) => (
+              <tr key={stream.stream}>
+                <td>{stream.stream}</td>
+                <td className="text-right">{stream.messagesPerSecond.toFixed(1)}/s</td>
+                <td className="text-right">{formatLag(stream.lagMs)}</td>
+                <td className="text-right">
+                  {stream.lastMessageAt === null ? '–' : `${formatAge(health.at - stream.lastMessageAt)} ago`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {health.stale && (
+          <p className="mt-2 text-xs text-orange-500">
+            No messages for {formatAge(health.sinceLastMessageMs)}; the stream will be reconnected if it stays silent.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StreamHealthPanel;
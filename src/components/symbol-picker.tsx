@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import type { ExchangeSymbol } from '@/lib/types';
+import { getMarketStatus } from '@/lib/market-status';
+import { useSymbolPreferences } from '@/hooks/use-symbol-preferences';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronsUpDown, Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SymbolPickerProps {
+  value: string;
+  symbols: ExchangeSymbol[] | null; // null while exchange info loads
+  error?: string | null;
+  onChange: (symbol: string) => void;
+}
+
+interface PickerOption {
+  key: string;
+  group: string;
+  symbol: ExchangeSymbol;
+}
+
+// Rendering every symbol at once makes typing sluggish, so each group shows its best matches.
+const MAX_GROUP_OPTIONS = 20;
+
+interface PickerOptions {
+  options: PickerOption[];
+  hidden: Map<string, number>; // Matching pairs left out of each group
+}
+
+const pairLabel = (symbol: ExchangeSymbol) => `${symbol.baseAsset}/${symbol.quoteAsset}`;
+
+// Favourites and recent pairs first, then one group per quote asset, largest first.
+const buildOptions = (
+  symbols: ExchangeSymbol[],
+  query: string,
+  favourites: string[],
+  recent: string[]
+): PickerOptions => {
+  const needle = query.toUpperCase().replace(/[\s/]/g, '');
+  const bySymbol = new Map(symbols.map((symbol) => [symbol.symbol, symbol]));
+  const options: PickerOption[] = [];
+  const hidden = new Map<string, number>();
+  const push = (group: string, list: ExchangeSymbol[]) => {
+    list
+      .slice(0, MAX_GROUP_OPTIONS)
+      .forEach((symbol) => options.push({ key: `${group}:${symbol.symbol}`, group, symbol }));
+    if (list.length > MAX_GROUP_OPTIONS) hidden.set(group, list.length - MAX_GROUP_OPTIONS);
+  };
+
+  if (!needle) {
+    const pick = (list: string[]) =>
+      list.map((name) => bySymbol.get(name)).filter((symbol): symbol is ExchangeSymbol => !!symbol);
+    push('Favourites', pick(favourites));
+    push('Recently used', pick(recent));
+  }
+
+  const groups = new Map<string, ExchangeSymbol[]>();
+  symbols.forEach((symbol) => {
+    if (needle && !symbol.symbol.includes(needle)) return;
+    const group = groups.get(symbol.quoteAsset) ?? [];
+    group.push(symbol);
+    groups.set(symbol.quoteAsset, group);
+  });
+  Array.from(groups.entries())
+    .sort(([, a], [, b]) => b.length - a.length)
+    .forEach(([quote, list]) => {
+      // Pairs starting with the query rank above those merely containing it; delisted pairs sink to the bottom.
+      const rank = (symbol: ExchangeSymbol) =>
+        (getMarketStatus(symbol).selectable ? 0 : 2) + (needle && symbol.symbol.startsWith(needle) ? 0 : 1);
+      push(quote, [...list].sort((a, b) => rank(a) - rank(b) || a.symbol.localeCompare(b.symbol)));
+    });
+
+  return { options, hidden };
+};
+
+const SymbolPicker = ({ value, symbols, error, onChange }: SymbolPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { favourites, recent, toggleFavourite, addRecent } = useSymbolPreferences();
+
+  const { options, hidden } = useMemo(
+    () => buildOptions(symbols ?? [], query, favourites, recent),
+    [symbols, query, favourites, recent]
+  );
+  const current = symbols?.find((symbol) => symbol.symbol === value);
+
+  useEffect(() => setActiveIndex(0), [query, open]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (symbol: ExchangeSymbol) => {
+    if (!getMarketStatus(symbol).selectable) return;
+    addRecent(symbol.symbol);
+    onChange(symbol.symbol);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (options.length === 0) return;
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex((index) => (index + 1) % options.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((index) => (index - 1 + options.length) % options.length);
+        break;
+      case 'Home':
+        setActiveIndex(0);
+        break;
+      case 'End':
+        setActiveIndex(options.length - 1);
+        break;
+      case 'Enter':
+        select(options[activeIndex].symbol);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-[180px] justify-between">
+          {current ? pairLabel(current) : value}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-0">
+        <Input
+          autoFocus
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search pairs..."
+          role="combobox"
+          aria-controls="symbol-picker-options"
+          aria-activedescendant={options[activeIndex] ? `symbol-option-${activeIndex}` : undefined}
+          className="rounded-none border-0 border-b focus-visible:ring-0"
+        />
+        <div ref={listRef} id="symbol-picker-options" role="listbox" className="max-h-80 overflow-y-auto p-1">
+          {!symbols && (
+            <p className="p-2 text-sm text-muted-foreground">{error ?? 'Loading symbols...'}</p>
+          )}
+          {symbols && options.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">No pairs match &quot;{query}&quot;.</p>
+          )}
+          {options.map((option, index) => {
+            const favourite = favourites.includes(option.symbol.symbol);
+            const market = getMarketStatus(option.symbol);
+            const lastInGroup = index === options.length - 1 || options[index + 1].group !== option.group;
+            const hiddenCount = lastInGroup ? (hidden.get(option.group) ?? 0) : 0;
+            return (
+              <div key={option.key}>
+                {(index === 0 || options[index - 1].group !== option.group) && (
+                  <div className="px-2 pt-2 pb-1 text-xs font-semibold text-muted-foreground">{option.group}</div>
+                )}
+                <div
+                  id={`symbol-option-${index}`}
+                  data-index={index}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  aria-disabled={!market.selectable}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => select(option.symbol)}
+                  className={cn(
+                    'flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm',
+                    index === activeIndex && 'bg-accent text-accent-foreground',
+                    option.symbol.symbol === value && 'font-semibold',
+                    !market.selectable && 'cursor-not-allowed opacity-50'
+                  )}
+                >
+                  <span>
+                    {pairLabel(option.symbol)}
+                    {!market.trading && <span className="ml-2 text-xs text-muted-foreground">{market.label}</span>}
+                  </span>
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    aria-label={favourite ? 'Remove from favourites' : 'Add to favourites'}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      toggleFavourite(option.symbol.symbol);
+                    }}
+                  >
+                    <Star className={cn('h-4 w-4', favourite ? 'fill-current' : 'opacity-40')} />
+                  </button>
+                </div>
+                {hiddenCount > 0 && (
+                  <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                    {hiddenCount} more — {query ? 'keep typing to narrow' : 'type to search'}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SymbolPicker;
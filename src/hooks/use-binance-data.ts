@@ -1,220 +1,142 @@
 "use client";
 
-import { useState, useEffect, useReducer, useRef } from "react";
-import type { Trade, DepthUpdate } from "@/lib/types";
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { ConnectionStatus, Trade } from "@/lib/types";
+import type { CrossedBook } from "@/lib/order-book-engine";
+import type { BookLevels, BookSelection, FeedMessage, FeedRequest, RetryState } from "@/lib/feed-protocol";
+import type { AuditReport } from "@/lib/book-auditor";
+import type { StatusTransition } from "@/lib/sync-state-machine";
+import type { StreamHealth } from "@/lib/stream-health";
+import type { ClockState } from "@/lib/server-clock";
+import type { QuarantineState } from "@/lib/frame-quarantine";
+import type { EndpointProfileId } from "@/lib/endpoints";
+import type { UpstreamErrorInfo } from "@/lib/upstream-error";
 import { useToast } from "@/hooks/use-toast";
 
-type ConnectionStatus = "connecting" | "connected" | "disconnected" | "error";
-
-interface OrderBookState {
-  bids: Map<string, string>;
-  asks: Map<string, string>;
-}
-
-type OrderBookAction =
-  | { type: "SET_SNAPSHOT"; payload: { bids: [string, string][]; asks: [string, string][] } }
-  | { type: "UPDATE"; payload: { bids: [string, string][]; asks: [string, string][] } }
-  | { type: "RESET" };
-
-const orderBookReducer = (state: OrderBookState, action: OrderBookAction): OrderBookState => {
-  const updateMap = (currentMap: Map<string, string>, updates: [string, string][]) => {
-    const newMap = new Map(currentMap);
-    for (const [price, quantity] of updates) {
-      if (parseFloat(quantity) === 0) {
-        newMap.delete(price);
-      } else {
-        newMap.set(price, quantity);
-      }
-    }
-    return newMap;
-  };
-
-  switch (action.type) {
-    case "SET_SNAPSHOT":
-      return {
-        bids: new Map(action.payload.bids),
-        asks: new Map(action.payload.asks),
-      };
-    case "UPDATE": {
-      return {
-        bids: updateMap(state.bids, action.payload.bids),
-        asks: updateMap(state.asks, action.payload.asks),
-      };
-    }
-    case "RESET":
-      return { bids: new Map(), asks: new Map() };
-    default:
-      return state;
+const EMPTY_BOOK: BookLevels = {
+  depth: "top",
+  grouping: null,
+  version: 0,
+  lastUpdateId: null,
+  bids: [],
+  asks: [],
+  bestBid: null,
+  bestAsk: null,
+};
+const MAX_STATUS_HISTORY = 50;
+
+// All hooks share one worker; each hook instance owns a feed inside it.
+let feedWorker: Worker | null = null;
+let nextFeedId = 1;
+const feedListeners = new Map<number, (message: FeedMessage) => void>();
+
+const getFeedWorker = () => {
+  if (!feedWorker) {
+    feedWorker = new Worker(new URL("../workers/binance-feed.worker.ts", import.meta.url));
+    feedWorker.onmessage = (event: MessageEvent<FeedMessage>) => {
+      feedListeners.get(event.data.feedId)?.(event.data);
+    };
   }
+  return feedWorker;
 };
 
-const THROTTLE_MS = 200;
-
-export const useBinanceData = (symbol: string) => {
-  const [orderBook, dispatch] = useReducer(orderBookReducer, { bids: new Map(), asks: new Map() });
+const postToFeedWorker = (request: FeedRequest) => getFeedWorker().postMessage(request);
+
+/**
+ * Streams one symbol's book and trades from the feed worker. `selection` is the
+ * part of the book on screen; the worker groups and cuts the book to it, so
+ * only those levels cross the thread boundary.
+ */
+export const useBinanceData = (
+  symbol: string,
+  profile: EndpointProfileId,
+  selection: BookSelection,
+  marketTrading = true
+) => {
+  const [book, setBook] = useState<BookLevels>(EMPTY_BOOK);
   const [trades, setTrades] = useState<Trade[]>([]);
-  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const [status, setStatus] = useState<ConnectionStatus>("idle");
+  const [statusHistory, setStatusHistory] = useState<StatusTransition[]>([]);
+  const [audit, setAudit] = useState<AuditReport | null>(null);
+  const [crossedBook, setCrossedBook] = useState<CrossedBook | null>(null);
+  const [retry, setRetry] = useState<RetryState | null>(null);
+  const [upstreamError, setUpstreamError] = useState<UpstreamErrorInfo | null>(null);
+  const [health, setHealth] = useState<StreamHealth | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantineState | null>(null);
+  const feedIdRef = useRef<number | null>(null);
   const { toast } = useToast();
 
-  const ws = useRef<WebSocket | null>(null);
-
-  const [throttledBids, setThrottledBids] = useState(new Map<string, string>());
-  const [throttledAsks, setThrottledAsks] = useState(new Map<string, string>());
-  const lastUiUpdate = useRef(0);
-
   useEffect(() => {
-    let isMounted = true;
-    let eventQueue: DepthUpdate[] = [];
-    let lastUpdateId: number | null = null;
-    let isFetchingSnapshot = false;
-
-    const connect = async () => {
-      if (ws.current) ws.current.close();
-      if (!isMounted) return;
-
-      setStatus("connecting");
-      dispatch({ type: "RESET" });
-      setTrades([]);
-      eventQueue = [];
-      lastUpdateId = null;
-      isFetchingSnapshot = true;
-
-      try {
-        const response = await fetch(`/api/depth?symbol=${symbol.toUpperCase()}`);
-        if (!isMounted) return;
-
-        if (!response.ok) throw new Error(`Failed to fetch snapshot: ${response.statusText}`);
-
-        const snapshot = await response.json();
-        if (!isMounted) return;
-
-        lastUpdateId = snapshot.lastUpdateId;
-        dispatch({ type: "SET_SNAPSHOT", payload: { bids: snapshot.bids, asks: snapshot.asks } });
-
-        const updatesToApply = { bids: [] as [string, string][], asks: [] as [string, string][] };
-        let firstUpdateProcessed = false;
-
-        for (const update of eventQueue) {
-          if (lastUpdateId !== null && update.u < lastUpdateId) continue;
-
-          if (!firstUpdateProcessed) {
-            if (
-              lastUpdateId !== null &&
-              update.U <= lastUpdateId + 1 &&
-              update.u >= lastUpdateId + 1
-            ) {
-              updatesToApply.bids.push(...update.b);
-              updatesToApply.asks.push(...update.a);
-              lastUpdateId = update.u;
-              firstUpdateProcessed = true;
-            }
-          } else {
-            if (lastUpdateId !== null && update.U === lastUpdateId + 1) {
-              updatesToApply.bids.push(...update.b);
-              updatesToApply.asks.push(...update.a);
-              lastUpdateId = update.u;
-            } else {
-              console.warn("Missed an update. Reconnecting.");
-              ws.current?.close();
-              return;
-            }
-          }
-        }
-
-        if (updatesToApply.bids.length > 0 || updatesToApply.asks.length > 0) {
-          dispatch({ type: "UPDATE", payload: updatesToApply });
-        }
-
-        eventQueue = [];
-        isFetchingSnapshot = false;
-      } catch (error: any) {
-        console.error("Snapshot fetch error:", error);
-        if (isMounted) {
-          setStatus("error");
-          toast({ variant: "destructive", title: "API Error", description: error.message });
-        }
-        setTimeout(() => {
-          if (isMounted) connect();
-        }, 5000);
-        return;
+    const feedId = nextFeedId++;
+    feedIdRef.current = feedId;
+    setRetry(null);
+    setHealth(null);
+    setStatusHistory([]);
+    setAudit(null);
+    setCrossedBook(null);
+    setUpstreamError(null);
+
+    feedListeners.set(feedId, (message) => {
+      if (message.book) setBook(message.book);
+      if (message.trades) setTrades(message.trades);
+      if (message.transition) {
+        const transition = message.transition;
+        setStatus(transition.to);
+        setStatusHistory((prev) => [...prev, transition].slice(-MAX_STATUS_HISTORY));
       }
-
-      const lowerCaseSymbol = symbol.toLowerCase();
-      const newWs = new WebSocket(
-        `wss://stream.binance.com:9443/stream?streams=${lowerCaseSymbol}@depth/${lowerCaseSymbol}@aggTrade`
-      );
-      ws.current = newWs;
-
-      newWs.onopen = () => {
-        if (isMounted) setStatus("connected");
-      };
-
-      newWs.onmessage = (event) => {
-        const message = JSON.parse(event.data);
-        const stream = message.stream;
-        const data = message.data;
-
-        if (stream.includes("@depth")) {
-          if (isFetchingSnapshot) {
-            eventQueue.push(data);
-          } else {
-            if (lastUpdateId !== null) {
-              if (data.U === lastUpdateId + 1) {
-                dispatch({ type: "UPDATE", payload: { bids: data.b, asks: data.a } });
-                lastUpdateId = data.u;
-              } else if (data.U > lastUpdateId + 1) {
-                console.warn("Order book out of sync, re-initializing...");
-                if (ws.current) ws.current.close();
-              }
-            }
-          }
-        } else if (stream.includes("@aggTrade")) {
-          setTrades((prev) => [data, ...prev].slice(0, 50));
-        }
-      };
-
-      newWs.onerror = () => {
-        if (isMounted) setStatus("error");
-      };
-
-      newWs.onclose = () => {
-        if (isMounted) {
-          setStatus("disconnected");
-          setTimeout(() => {
-            if (isMounted && ws.current === newWs) connect();
-          }, 5000);
-        }
-      };
-    };
-
-    connect();
+      if (message.audit) setAudit(message.audit);
+      if (message.crossed !== undefined) setCrossedBook(message.crossed);
+      if (message.retry !== undefined) setRetry(message.retry);
+      if (message.upstream !== undefined) setUpstreamError(message.upstream);
+      if (message.health) setHealth(message.health);
+      if (message.clock) setClock(message.clock);
+      if (message.quarantine) setQuarantine(message.quarantine);
+      if (message.error) {
+        toast({ variant: "destructive", title: message.error.title, description: message.error.description });
+      }
+    });
+    postToFeedWorker({ type: "subscribe", feedId, symbol, profile });
 
     return () => {
-      isMounted = false;
-      if (ws.current) {
-        ws.current.onclose = null;
-        ws.current.close();
-        ws.current = null;
-      }
+      feedIdRef.current = null;
+      feedListeners.delete(feedId);
+      postToFeedWorker({ type: "unsubscribe", feedId });
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [symbol, toast]);
+  }, [symbol, profile, toast]);
 
+  // Re-sent for every new feed, since the subscribe effect above replaces it.
   useEffect(() => {
-    const now = Date.now();
-    const updateUi = () => {
-      setThrottledBids(new Map(orderBook.bids));
-      setThrottledAsks(new Map(orderBook.asks));
-      lastUiUpdate.current = Date.now();
-    };
-
-    if (now - lastUiUpdate.current > THROTTLE_MS) {
-      updateUi();
-    } else {
-      const timer = setTimeout(updateUi, THROTTLE_MS - (now - lastUiUpdate.current));
-      return () => clearTimeout(timer);
+    if (feedIdRef.current !== null) {
+      postToFeedWorker({ type: "market-status", feedId: feedIdRef.current, trading: marketTrading });
     }
-  }, [orderBook]);
+  }, [symbol, profile, marketTrading]);
 
-  return { bids: throttledBids, asks: throttledAsks, trades, status };
+  // Re-sent for every new feed too. Keyed on the fields, since callers rebuild the object on every render.
+  const { depth, grouping } = selection;
+  useEffect(() => {
+    if (feedIdRef.current !== null) {
+      postToFeedWorker({ type: "book-selection", feedId: feedIdRef.current, selection: { depth, grouping } });
+    }
+  }, [symbol, profile, depth, grouping]);
+
+  // Skips the current backoff and retries right away.
+  const reconnect = useCallback(() => {
+    if (feedIdRef.current !== null) postToFeedWorker({ type: "reconnect", feedId: feedIdRef.current });
+  }, []);
+
+  return {
+    book,
+    trades,
+    status,
+    statusHistory,
+    audit,
+    crossedBook,
+    retry,
+    upstreamError,
+    reconnect,
+    health,
+    clock,
+    quarantine,
+  };
 };
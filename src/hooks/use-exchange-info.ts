@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExchangeInfo, ExchangeSymbol } from "@/lib/types";
+import type { EndpointProfileId } from "@/lib/endpoints";
+import { exchangeInfoSchema } from "@/lib/schemas";
+
+const STATUS_POLL_MS = 60_000;
+
+// One request per profile for the lifetime of the page; failed requests are retried on the next mount.
+const requests = new Map<EndpointProfileId, Promise<ExchangeInfo>>();
+
+const loadExchangeInfo = (profile: EndpointProfileId): Promise<ExchangeInfo> => {
+  let request = requests.get(profile);
+  if (!request) {
+    request = fetch(`/api/exchange-info?profile=${profile}`).then(async (response) => {
+      if (!response.ok) throw new Error(`Failed to load symbols: ${response.status} ${response.statusText}`);
+      return exchangeInfoSchema.parse(await response.json());
+    });
+    request.catch(() => requests.delete(profile));
+    requests.set(profile, request);
+  }
+  return request;
+};
+
+export const useExchangeInfo = (profile: EndpointProfileId) => {
+  const [exchangeInfo, setExchangeInfo] = useState<ExchangeInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setExchangeInfo(null);
+    setError(null);
+    loadExchangeInfo(profile).then(
+      (info) => {
+        if (!cancelled) setExchangeInfo(info);
+      },
+      (reason: Error) => {
+        if (!cancelled) setError(reason.message);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+
+  return { exchangeInfo, error };
+};
+
+/**
+ * Polls one symbol's exchange info so trading status changes (halts, breaks)
+ * are picked up while the page stays open. Null until the first response.
+ */
+export const useSymbolInfo = (profile: EndpointProfileId, symbol: string) => {
+  const [symbolInfo, setSymbolInfo] = useState<ExchangeSymbol | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSymbolInfo(null);
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/exchange-info?profile=${profile}&symbol=${symbol}`);
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        const info = exchangeInfoSchema.parse(await response.json());
+        if (!cancelled) setSymbolInfo(info.symbols[0] ?? null);
+      } catch (error) {
+        console.warn(`Failed to refresh ${symbol} status:`, error);
+      }
+    };
+    poll();
+    const timer = setInterval(poll, STATUS_POLL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [profile, symbol]);
+
+  return symbolInfo;
+};
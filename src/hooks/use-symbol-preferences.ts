@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const FAVOURITES_KEY = "binance-live-book:favourite-symbols";
+const RECENT_KEY = "binance-live-book:recent-symbols";
+const MAX_RECENT = 8;
+
+const readList = (key: string): string[] => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeList = (key: string, list: string[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(list));
+  } catch {
+    // Storage can be full or disabled; preferences then only last for the session.
+  }
+};
+
+/** Favourite and recently used symbols, persisted in localStorage. */
+export const useSymbolPreferences = () => {
+  const [favourites, setFavourites] = useState<string[]>([]);
+  const [recent, setRecent] = useState<string[]>([]);
+
+  // Read after mounting so server and client render the same markup.
+  useEffect(() => {
+    setFavourites(readList(FAVOURITES_KEY));
+    setRecent(readList(RECENT_KEY));
+  }, []);
+
+  const toggleFavourite = useCallback((symbol: string) => {
+    setFavourites((prev) => {
+      const next = prev.includes(symbol) ? prev.filter((item) => item !== symbol) : [...prev, symbol];
+      writeList(FAVOURITES_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const addRecent = useCallback((symbol: string) => {
+    setRecent((prev) => {
+      const next = [symbol, ...prev.filter((item) => item !== symbol)].slice(0, MAX_RECENT);
+      writeList(RECENT_KEY, next);
+      return next;
+    });
+  }, []);
+
+  return { favourites, recent, toggleFavourite, addRecent };
+};
@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type UIEvent } from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number; // Every row has the same height in pixels
+  offset?: number; // Height of content above the rows, such as a sticky header
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+}
+
+/**
+ * Windowing for a fixed-height list in a scroll container: only the rows in
+ * view, plus a margin, are rendered, each absolutely positioned at
+ * `index * rowHeight` inside a spacer of `totalHeight`.
+ */
+export const useVirtualRows = ({ count, rowHeight, offset = 0, overscan = 8 }: VirtualRowsOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((event: UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop), []);
+
+  const rowsTop = Math.max(0, scrollTop - offset);
+  const start = Math.max(0, Math.floor(rowsTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((rowsTop + viewportHeight) / rowHeight) + overscan);
+
+  /** Scrolls so the row at `index` sits in the middle of the viewport. */
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (!container) return;
+      container.scrollTop = Math.max(0, offset + index * rowHeight - (container.clientHeight - offset - rowHeight) / 2);
+    },
+    [offset, rowHeight]
+  );
+
+  /** Moves the scroll position by whole rows, e.g. to keep a row in place when rows are added above it. */
+  const shiftRows = useCallback(
+    (rows: number) => {
+      const container = containerRef.current;
+      if (container && rows !== 0) container.scrollTop += rows * rowHeight;
+    },
+    [rowHeight]
+  );
+
+  return { containerRef, onScroll, start, end, totalHeight: count * rowHeight, scrollToIndex, shiftRows };
+};
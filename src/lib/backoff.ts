@@ -0,0 +1,63 @@
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  retryBudget: number; // Consecutive failures allowed before the circuit opens
+  circuitOpenMs: number; // Pause once the budget is spent
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60_000,
+  multiplier: 2,
+  retryBudget: 8,
+  circuitOpenMs: 5 * 60_000,
+};
+
+export interface RetryDelay {
+  delayMs: number;
+  attempt: number; // Consecutive failures so far, still counted while the circuit is open
+  circuitOpen: boolean;
+}
+
+/**
+ * Exponential backoff with jitter and a circuit breaker.
+ *
+ * Each failure doubles the delay ceiling up to maxDelayMs; the actual delay is
+ * picked at random in the upper half of the ceiling so many clients failing at
+ * once do not retry in lockstep. A server-provided Retry-After always wins if
+ * it is longer. After retryBudget consecutive failures the circuit opens for
+ * circuitOpenMs, and a single failure after that pause opens it again.
+ */
+export class Backoff {
+  private readonly options: BackoffOptions;
+  private failures = 0; // Position in the retry budget, held at the budget once the circuit has opened
+  private attempts = 0;
+
+  constructor(options: Partial<BackoffOptions> = {}) {
+    this.options = { ...DEFAULT_BACKOFF, ...options };
+  }
+
+  /** Records a failure and returns how long to wait before the next attempt. */
+  next(retryAfterMs = 0): RetryDelay {
+    const { initialDelayMs, maxDelayMs, multiplier, retryBudget, circuitOpenMs } = this.options;
+    this.failures++;
+    this.attempts++;
+
+    if (this.failures > retryBudget) {
+      // Half-open after the pause: the next failure reopens the circuit straight away.
+      this.failures = retryBudget;
+      return { delayMs: Math.max(circuitOpenMs, retryAfterMs), attempt: this.attempts, circuitOpen: true };
+    }
+
+    const ceiling = Math.min(maxDelayMs, initialDelayMs * multiplier ** (this.failures - 1));
+    const delayMs = ceiling / 2 + Math.random() * (ceiling / 2);
+    return { delayMs: Math.max(Math.round(delayMs), retryAfterMs), attempt: this.attempts, circuitOpen: false };
+  }
+
+  /** Call after a successful attempt, or when the user asks to retry right away. */
+  reset() {
+    this.failures = 0;
+    this.attempts = 0;
+  }
+}
@@ -0,0 +1,501 @@
+import type { ConnectionStatus, DepthSnapshot, Trade } from "@/lib/types";
+import type { BookLevels, BookSelection, FeedUpdate } from "@/lib/feed-protocol";
+import { OrderBookEngine } from "@/lib/order-book-engine";
+import { BookAuditor } from "@/lib/book-auditor";
+import { selectLevels, TOP_LEVELS } from "@/lib/depth-levels";
+import { SyncStateMachine } from "@/lib/sync-state-machine";
+import { Backoff, type BackoffOptions } from "@/lib/backoff";
+import { StreamHealthMonitor } from "@/lib/stream-health";
+import type { ServerClock } from "@/lib/server-clock";
+import type { StreamConnectionManager, StreamSubscription } from "@/lib/stream-connection-manager";
+import { WsApiError, type BinanceWsApiClient } from "@/lib/ws-api-client";
+import type { EndpointProfile } from "@/lib/endpoints";
+import {
+  classifyUpstreamStatus,
+  parseRetryAfter,
+  type UpstreamErrorBody,
+  type UpstreamErrorInfo,
+} from "@/lib/upstream-error";
+import { depthSnapshotSchema, describeIssues, parseStreamMessage } from "@/lib/schemas";
+import type { FrameQuarantine } from "@/lib/frame-quarantine";
+
+const THROTTLE_MS = 200;
+const BOOK_DEPTH = 1000; // Raw levels per side read for grouping and the full-depth view: the snapshot depth
+const SNAPSHOT_LIMIT = 1000;
+const MAX_TRADES = 50;
+const HEALTH_INTERVAL_MS = 1000;
+const SILENT_PROBE_MS = 30_000; // Check the socket when a stale stream stays silent this long, and again after each check
+const AUDIT_RESYNC_THRESHOLD = 0.01; // Resync when more than 1% of audited levels disagree
+// Gap, crossed-book and audit resyncs wait 0.5-1s, doubling up to 30s until the book syncs again.
+const RESYNC_BACKOFF: Partial<BackoffOptions> = { initialDelayMs: 1000, maxDelayMs: 30_000, retryBudget: Infinity };
+
+export interface BinanceFeedOptions {
+  symbol: string;
+  profile: EndpointProfile; // Snapshots are proxied to this profile's REST host
+  onUpdate: (update: FeedUpdate) => void;
+  connections: StreamConnectionManager; // Shared with every other feed on the same profile
+  backoff?: Partial<BackoffOptions>;
+  clock?: ServerClock; // Server-corrected clock for lag and staleness; local time without one
+  wsApi?: BinanceWsApiClient; // Load snapshots over the WebSocket API, falling back to /api/depth unless rate limited
+  quarantine?: FrameQuarantine; // Receives payloads that fail validation
+}
+
+/**
+ * A failed depth snapshot request, with the server's Retry-After when it sent
+ * one and the proxy's classification of the upstream failure.
+ */
+export class SnapshotFetchError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number,
+    readonly upstream?: UpstreamErrorInfo
+  ) {
+    super(message);
+    this.name = "SnapshotFetchError";
+  }
+}
+
+/**
+ * Streams one symbol's order book and trades: subscribes to its depth and
+ * aggTrade streams on the shared connection manager, loads the depth snapshot,
+ * feeds both into an OrderBookEngine and publishes throttled, pre-sorted
+ * views. Status changes and errors are published immediately. Snapshots come
+ * from the `/api/depth` proxy, or from the WebSocket API `depth` method when a
+ * client is provided; both carry the lastUpdateId the engine aligns diffs to.
+ *
+ * When the diff stream has a gap the subscription stays open: the engine
+ * buffers diffs while a fresh snapshot loads, after a backed-off delay, and
+ * then swaps the book in one step, so the visible book and the trade log
+ * survive the resync. Diffs and trades repeated when the manager rotates a
+ * socket are dropped by update and aggregate trade id, so rotation never
+ * touches the book. A BookAuditor checks
+ * the book against a fresh snapshot every minute and triggers the same resync
+ * when it has drifted, as does a crossed or locked book.
+ *
+ * Failed snapshots and dropped subscriptions are retried with exponential
+ * backoff and jitter, honouring Retry-After, until the retry budget opens the
+ * circuit. Stream health (lag, message rates, silence) is published every
+ * second; a silent stream is marked stale, and if it stays silent the socket
+ * is asked for a reply, so a quiet market is not mistaken for a dead
+ * connection. Only a socket that does not answer is reconnected, and the
+ * visible book and trades are kept until the new snapshot replaces them. Lag
+ * is measured against the server-corrected clock when one is provided.
+ *
+ * Book updates are throttled and carry only the levels the UI has on screen,
+ * the top 20 or the full depth, already grouped by the selected step.
+ *
+ * Designed to run inside the feed worker so parsing and book maintenance stay
+ * off the main thread, but it only depends on the connection manager and
+ * fetch.
+ */
+export class BinanceFeed {
+  private readonly symbol: string;
+  private readonly profile: EndpointProfile;
+  private readonly onUpdate: (update: FeedUpdate) => void;
+  private readonly engine = new OrderBookEngine();
+  private readonly connections: StreamConnectionManager;
+  private readonly depthStream: string;
+  private readonly tradeStream: string;
+  private subscription: StreamSubscription | null = null;
+  private trades: Trade[] = [];
+  private stopped = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAction: (() => void) | null = null;
+  private resyncTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly backoff: Backoff;
+  private readonly resyncBackoff = new Backoff(RESYNC_BACKOFF);
+  private readonly clock?: ServerClock;
+  private readonly wsApi?: BinanceWsApiClient;
+  private readonly quarantine?: FrameQuarantine;
+  private readonly health: StreamHealthMonitor;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastFlush = 0;
+  private snapshotRequest = 0;
+  private crossedFlagged = false;
+  private upstreamFlagged = false;
+  private marketTrading = true;
+  private selection: BookSelection = { depth: "top", grouping: null }; // Until the UI sends its own
+  private probing = false;
+  private lastProbeAt = 0;
+  private bookChanged = false;
+  private tradesChanged = false;
+  private unsubscribeEngine: () => void;
+  private readonly auditor: BookAuditor;
+  private readonly machine: SyncStateMachine;
+
+  constructor({ symbol, profile, onUpdate, connections, backoff, clock, wsApi, quarantine }: BinanceFeedOptions) {
+    this.symbol = symbol;
+    this.profile = profile;
+    this.onUpdate = onUpdate;
+    this.connections = connections;
+    this.wsApi = wsApi;
+    this.quarantine = quarantine;
+    this.depthStream = `${symbol.toLowerCase()}@depth`;
+    this.tradeStream = `${symbol.toLowerCase()}@aggTrade`;
+    this.clock = clock;
+    this.health = new StreamHealthMonitor(clock ? () => clock.now() : Date.now);
+    this.backoff = new Backoff(backoff);
+    this.machine = new SyncStateMachine((transition) => {
+      if (transition.to === "synced") {
+        this.backoff.reset();
+        this.resyncBackoff.reset();
+      }
+      this.onUpdate({ transition });
+    });
+    this.unsubscribeEngine = this.engine.subscribe((event) => {
+      if (event.type === "synced") {
+        this.setStatus("synced");
+      } else if (event.type === "gap") {
+        console.warn("Order book out of sync, resyncing from a fresh snapshot...");
+        this.resync(`Missed diffs: expected update ${event.lastUpdateId + 1}, received ${event.update.U}`);
+      } else if (event.type === "crossed") {
+        const crossed = {
+          lastUpdateId: event.lastUpdateId,
+          bestBid: event.bestBid,
+          bestAsk: event.bestAsk,
+          locked: event.locked,
+        };
+        console.warn(
+          `Order book ${crossed.locked ? "locked" : "crossed"} at update ${crossed.lastUpdateId}: ` +
+            `best bid ${crossed.bestBid[0]} x ${crossed.bestBid[1]}, best ask ${crossed.bestAsk[0]} x ${crossed.bestAsk[1]}. Resyncing...`
+        );
+        this.crossedFlagged = true;
+        this.onUpdate({ crossed });
+        this.resync(`Book ${crossed.locked ? "locked" : "crossed"} at ${crossed.bestBid[0]} / ${crossed.bestAsk[0]}`);
+      }
+    });
+    this.auditor = new BookAuditor({
+      symbol,
+      engine: this.engine,
+      fetchSnapshot: () => this.fetchSnapshot(),
+      resyncThreshold: AUDIT_RESYNC_THRESHOLD,
+      onReport: (report) => {
+        if (report.mismatches.length > 0) {
+          console.warn(`Order book audit found ${report.mismatches.length} mismatched levels`, report.mismatches);
+        }
+        if (!this.stopped) this.onUpdate({ audit: report });
+      },
+      onDivergence: (report) => {
+        console.warn("Order book diverged from the exchange, resyncing...");
+        this.resync(`Audit found ${report.mismatches.length} of ${report.levelsCompared} levels mismatched`);
+      },
+    });
+  }
+
+  start() {
+    this.connect();
+    this.auditor.start();
+    this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_INTERVAL_MS);
+  }
+
+  /** Skips any pending backoff and retries immediately, or reconnects if nothing is pending. */
+  reconnectNow() {
+    if (this.stopped) return;
+    this.backoff.reset();
+    if (this.retryAction) {
+      this.runRetry();
+    } else if (this.setStatus("disconnected", "Reconnect requested")) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Halted and paused markets publish nothing, so while the market is not
+   * trading a silent stream is expected and is not reconnected.
+   */
+  setMarketTrading(trading: boolean) {
+    this.marketTrading = trading;
+  }
+
+  /** Changes the levels published to the UI, and publishes them on the next flush. */
+  setBookSelection(selection: BookSelection) {
+    this.selection = selection;
+    this.bookChanged = true;
+    this.scheduleFlush();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.unsubscribeEngine();
+    this.auditor.stop();
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.resyncTimer) clearTimeout(this.resyncTimer);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.subscription?.close();
+    this.subscription = null;
+  }
+
+  /** With `keepBook`, the last book and trades stay visible until the new snapshot replaces them. */
+  private connect(keepBook = false) {
+    this.subscription?.close();
+    if (this.resyncTimer) clearTimeout(this.resyncTimer);
+    this.resyncTimer = null;
+    if (this.stopped) return;
+
+    this.setStatus("connecting");
+    this.health.reset();
+    if (keepBook) {
+      this.engine.startResync();
+    } else {
+      this.engine.reset();
+      this.trades = [];
+      this.bookChanged = true;
+      this.tradesChanged = true;
+      this.scheduleFlush();
+    }
+
+    // Subscribe first so diffs are buffered by the engine while the snapshot loads.
+    const subscription = this.connections.subscribe([this.depthStream, this.tradeStream], {
+      onLive: () => {
+        if (this.setStatus("fetching-snapshot")) this.loadSnapshot(subscription, "fetching-snapshot");
+      },
+      onMessage: (stream, data) => this.handleMessage(stream, data),
+      onDrop: (reason) => {
+        this.setStatus("disconnected", reason);
+        this.scheduleRetry("Stream closed", () => {
+          if (this.subscription === subscription) this.connect(true);
+        });
+      },
+    });
+    this.subscription = subscription;
+  }
+
+  /**
+   * Keeps the subscription and the visible book while a fresh snapshot is
+   * loaded. Snapshots are paced by their own backoff, reset only once the book
+   * syncs, so a snapshot that keeps missing the buffered diffs (a lagging
+   * mirror, a cached response) cannot turn into a request loop.
+   */
+  private resync(reason: string) {
+    if (this.stopped || !this.subscription?.isLive()) return;
+    this.engine.startResync();
+    this.setStatus("resyncing", reason);
+    // Gaps found while a resync is pending are covered by the snapshot it loads.
+    if (this.resyncTimer) return;
+
+    const subscription = this.subscription;
+    const { delayMs } = this.resyncBackoff.next();
+    this.resyncTimer = setTimeout(() => {
+      this.resyncTimer = null;
+      if (this.subscription === subscription && subscription.isLive() && this.machine.current === "resyncing") {
+        this.loadSnapshot(subscription, "resyncing");
+      }
+    }, delayMs);
+  }
+
+  private async loadSnapshot(subscription: StreamSubscription, mode: "fetching-snapshot" | "resyncing") {
+    const request = ++this.snapshotRequest;
+    const isCurrent = () =>
+      !this.stopped && this.subscription === subscription && subscription.isLive() && request === this.snapshotRequest;
+
+    try {
+      const snapshot = await this.fetchSnapshot();
+      if (!isCurrent()) return;
+
+      this.engine.applySnapshot(snapshot);
+      this.bookChanged = true;
+      this.scheduleFlush();
+      // A gap found while replaying buffered diffs has already started another resync.
+      if (this.engine.isSynced()) {
+        this.setStatus("synced");
+      } else if (!this.engine.isAwaitingSnapshot()) {
+        this.setStatus("buffering", `Snapshot at update ${snapshot.lastUpdateId} applied`);
+      }
+      if (this.crossedFlagged && !this.engine.isCrossed()) {
+        this.crossedFlagged = false;
+        this.onUpdate({ crossed: null });
+      }
+      if (this.upstreamFlagged) {
+        this.upstreamFlagged = false;
+        this.onUpdate({ upstream: null });
+      }
+    } catch (error: any) {
+      console.error("Snapshot fetch error:", error);
+      if (!isCurrent()) return;
+      const upstream = error instanceof SnapshotFetchError ? error.upstream : undefined;
+      this.setStatus(upstream?.kind === "geo-blocked" ? "geo-blocked" : "error", error.message);
+      if (upstream) {
+        // The page explains typed upstream failures, so they replace the generic toast.
+        this.upstreamFlagged = true;
+        this.onUpdate({ upstream });
+      } else {
+        this.onUpdate({ error: { title: "API Error", description: error.message } });
+      }
+      // The subscription stays open and the engine keeps buffering diffs for the retry.
+      const retryAfterMs = error instanceof SnapshotFetchError ? error.retryAfterMs : undefined;
+      this.scheduleRetry("Snapshot failed", () => {
+        if (isCurrent() && this.setStatus(mode, "Retrying snapshot")) this.loadSnapshot(subscription, mode);
+      }, retryAfterMs);
+    }
+  }
+
+  private async fetchSnapshot(): Promise<DepthSnapshot> {
+    if (this.wsApi) {
+      try {
+        const result = await this.wsApi.request("depth", {
+          symbol: this.symbol.toUpperCase(),
+          limit: SNAPSHOT_LIMIT,
+        });
+        return this.validateSnapshot(result, "ws-api depth");
+      } catch (error) {
+        // A rate limit or ban asks for fewer requests, so wait it out instead of moving the load onto REST.
+        if (error instanceof WsApiError && (error.status === 429 || error.status === 418)) {
+          throw new SnapshotFetchError(error.message, error.status, error.retryAfterMs, {
+            kind: classifyUpstreamStatus(error.status),
+            status: error.status,
+            message: error.message,
+            hosts: this.profile.wsApiUrl ? [new URL(this.profile.wsApiUrl).host] : [],
+            retryAfterMs: error.retryAfterMs,
+          });
+        }
+        console.warn("WebSocket API snapshot failed, falling back to /api/depth:", error);
+      }
+    }
+
+    // Both syncing and auditing align the snapshot with buffered diffs, so skip the proxy's TTL cache.
+    const response = await fetch(
+      `/api/depth?symbol=${this.symbol.toUpperCase()}&profile=${this.profile.id}&fresh=1`
+    );
+    if (!response.ok) {
+      const body: Partial<UpstreamErrorBody> | null = await response.json().catch(() => null);
+      throw new SnapshotFetchError(
+        body?.upstream?.message ?? `Failed to fetch snapshot: ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get("Retry-After")),
+        body?.upstream
+      );
+    }
+    return this.validateSnapshot(await response.json(), "/api/depth");
+  }
+
+  // A malformed snapshot would corrupt the whole book, so it fails like a request error.
+  private validateSnapshot(json: unknown, source: string): DepthSnapshot {
+    const result = depthSnapshotSchema.safeParse(json);
+    if (result.success) return result.data;
+    const reason = describeIssues(result.error);
+    this.quarantine?.record(source, json, reason);
+    throw new SnapshotFetchError(`Invalid snapshot from ${source}: ${reason}`, 0);
+  }
+
+  private handleMessage(stream: string, data: unknown) {
+    const parsed = parseStreamMessage(stream, data);
+    if (!parsed.ok) {
+      this.quarantine?.record(stream, data, parsed.reason);
+      return;
+    }
+    const event = parsed.value;
+    if (event.kind !== "depth" && event.kind !== "aggTrade") return; // Narrows to the two streams this feed subscribes to
+
+    this.health.record(stream, event.data.E);
+    if (this.machine.current === "stale") {
+      this.setStatus(this.engine.isSynced() ? "synced" : "buffering", "Messages resumed");
+    }
+
+    if (event.kind === "depth") {
+      if (this.engine.applyDiff(event.data)) {
+        this.bookChanged = true;
+        this.scheduleFlush();
+      }
+    } else {
+      const trade = event.data;
+      // Socket rotation can replay a trade the old socket already delivered.
+      if (this.trades.length > 0 && trade.a <= this.trades[0].a) return;
+      this.trades = [trade, ...this.trades].slice(0, MAX_TRADES);
+      this.tradesChanged = true;
+      this.scheduleFlush();
+    }
+  }
+
+  private checkHealth() {
+    if (this.stopped) return;
+    const health = this.health.getHealth();
+    this.onUpdate({ health, clock: this.clock?.getState(), quarantine: this.quarantine?.getState() });
+
+    const status = this.machine.current;
+    const silentFor = `${Math.round(health.sinceLastMessageMs / 1000)}s`;
+    if (health.stale && (status === "synced" || status === "buffering")) {
+      this.setStatus("stale", `No messages for ${silentFor}${this.marketTrading ? "" : " (market not trading)"}`);
+    } else if (status === "stale" && this.marketTrading && health.sinceLastMessageMs > SILENT_PROBE_MS) {
+      this.probeConnection();
+    }
+  }
+
+  // A socket that does not answer is failed by the manager, and the dropped subscription reconnects.
+  private probeConnection() {
+    const subscription = this.subscription;
+    if (!subscription || this.probing || Date.now() - this.lastProbeAt < SILENT_PROBE_MS) return;
+    this.probing = true;
+    subscription.checkConnection().then(() => {
+      this.probing = false;
+      this.lastProbeAt = Date.now();
+    });
+  }
+
+  private scheduleRetry(reason: string, action: () => void, retryAfterMs?: number) {
+    if (this.stopped) return;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+
+    const retry = this.backoff.next(retryAfterMs);
+    const seconds = Math.ceil(retry.delayMs / 1000);
+    this.setStatus(
+      "backing-off",
+      retry.circuitOpen
+        ? `${reason}; ${retry.attempt} consecutive failures, pausing for ${seconds}s`
+        : `${reason}; attempt ${retry.attempt}, retrying in ${seconds}s`
+    );
+    this.retryAction = action;
+    this.onUpdate({ retry: { at: Date.now() + retry.delayMs, attempt: retry.attempt, circuitOpen: retry.circuitOpen } });
+    this.retryTimer = setTimeout(() => this.runRetry(), retry.delayMs);
+  }
+
+  private runRetry() {
+    const action = this.retryAction;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.retryAction = null;
+    this.onUpdate({ retry: null });
+    if (!this.stopped) action?.();
+  }
+
+  private setStatus(status: ConnectionStatus, reason?: string): boolean {
+    return !this.stopped && this.machine.transition(status, reason);
+  }
+
+  // Grouping and the top-of-book cut happen here, so only the levels on screen are copied to the UI.
+  private getBookLevels(): BookLevels {
+    const { depth, grouping } = this.selection;
+    // Without grouping the top view needs only TOP_LEVELS raw levels; groups can span any number of them.
+    const view = this.engine.getView(depth === "top" && !grouping ? TOP_LEVELS : BOOK_DEPTH);
+    const limit = depth === "top" ? TOP_LEVELS : undefined;
+    return {
+      depth,
+      grouping,
+      version: view.version,
+      lastUpdateId: view.lastUpdateId,
+      bids: selectLevels(view.bids, "bids", grouping, limit),
+      asks: selectLevels(view.asks, "asks", grouping, limit),
+      bestBid: view.bids[0]?.[0] ?? null,
+      bestAsk: view.asks[0]?.[0] ?? null,
+    };
+  }
+
+  // Publish the book and trades at most once per THROTTLE_MS.
+  private scheduleFlush() {
+    if (this.flushTimer || this.stopped) return;
+    const delay = Math.max(0, THROTTLE_MS - (Date.now() - this.lastFlush));
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      if (this.stopped) return;
+      const update: FeedUpdate = {};
+      if (this.bookChanged) update.book = this.getBookLevels();
+      if (this.tradesChanged) update.trades = this.trades;
+      this.bookChanged = false;
+      this.tradesChanged = false;
+      this.lastFlush = Date.now();
+      this.onUpdate(update);
+    }, delay);
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import type { EndpointProfile } from "@/lib/endpoints";
+import type { ExchangeInfo } from "@/lib/types";
+import { CoalescingCache } from "@/lib/coalescing-cache";
+import { exchangeInfoSchema } from "@/lib/schemas";
+import {
+  classifyUpstreamStatus,
+  parseRetryAfter,
+  type UpstreamErrorBody,
+  type UpstreamErrorInfo,
+} from "@/lib/upstream-error";
+
+/** Every upstream host failed; carries the most informative failure for the client. */
+export class UpstreamError extends Error {
+  constructor(readonly info: UpstreamErrorInfo, readonly details?: string) {
+    super(info.message);
+    this.name = "UpstreamError";
+  }
+}
+
+// Binance error bodies look like {"code":-1121,"msg":"Invalid symbol."}.
+const binanceMessage = (details: string): string => {
+  try {
+    const { msg } = JSON.parse(details);
+    return typeof msg === "string" ? `: ${msg}` : "";
+  } catch {
+    return "";
+  }
+};
+
+/**
+ * Fetches a Binance REST path for the API routes, failing over across the
+ * profile's hosts. Network errors, 5xx and regional refusals (451) move on to
+ * the next host; bans, rate limits, firewall refusals (403) and other 4xx apply
+ * to every host and are returned straight away. Throws an UpstreamError when no host succeeded,
+ * preferring a regional refusal over later outages so the cause is not lost.
+ */
+export async function fetchFromBinance(profile: EndpointProfile, path: string): Promise<Response> {
+  const hosts = [profile.restUrl, ...profile.restFallbackUrls];
+  const tried: string[] = [];
+  let failure: UpstreamError | null = null;
+
+  for (const host of hosts) {
+    tried.push(host);
+    let response: Response;
+    try {
+      response = await fetch(`${host}${path}`, {
+        headers: {
+          "User-Agent": "Mozilla/5.0", // Pretend to be a browser → avoids blocks
+        },
+        next: { revalidate: 0 }, // prevent caching
+      });
+    } catch (error: any) {
+      if (!failure || failure.info.kind !== "geo-blocked") {
+        failure = new UpstreamError(
+          { kind: "unavailable", status: 0, message: `Could not reach ${host}: ${error.message}`, hosts: [...tried] },
+          error.message
+        );
+      }
+      continue;
+    }
+    if (response.ok) return response;
+
+    const kind = classifyUpstreamStatus(response.status);
+    const details = await response.text();
+    const error = new UpstreamError(
+      {
+        kind,
+        status: response.status,
+        message: `${host} responded ${response.status}${binanceMessage(details)}`,
+        hosts: [...tried],
+        retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+      },
+      details
+    );
+    if (kind !== "geo-blocked" && kind !== "unavailable") throw error;
+    if (!failure || failure.info.kind !== "geo-blocked") failure = error;
+  }
+
+  if (!failure) {
+    throw new UpstreamError({ kind: "unavailable", status: 0, message: "No hosts configured", hosts: [] });
+  }
+  failure.info.hosts = tried;
+  throw failure;
+}
+
+// Exchange info weighs 20; every route shares one copy per profile, refreshed
+// once a minute so halts and breaks show up promptly.
+const EXCHANGE_INFO_TTL_MS = 60_000;
+const exchangeInfoCache = new CoalescingCache<ExchangeInfo>(EXCHANGE_INFO_TTL_MS, 10);
+
+export const getExchangeInfo = (profile: EndpointProfile): Promise<ExchangeInfo> =>
+  exchangeInfoCache.get(profile.id, async () =>
+    exchangeInfoSchema.parse(await (await fetchFromBinance(profile, "/api/v3/exchangeInfo")).json())
+  );
+
+/** Copies Binance's request weight headers (X-MBX-USED-WEIGHT, X-MBX-USED-WEIGHT-1M, ...) for the client. */
+export const weightHeaders = (response: Response): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name.toLowerCase().startsWith("x-mbx-used-weight")) headers[name] = value;
+  });
+  return headers;
+};
+
+/** Turns an UpstreamError into a proxy response with the upstream status and Retry-After. */
+export const upstreamErrorResponse = ({ info, details }: UpstreamError) => {
+  const body: UpstreamErrorBody = { error: "Binance fetch failed", details, upstream: info };
+  const headers: Record<string, string> = { "Cache-Control": "no-store" };
+  if (info.retryAfterMs !== undefined) headers["Retry-After"] = String(Math.ceil(info.retryAfterMs / 1000));
+  // Network failures have no upstream status; report them as a bad gateway.
+  return NextResponse.json(body, { status: info.status || 502, headers });
+};
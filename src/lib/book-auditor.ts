@@ -0,0 +1,180 @@
+import type { DepthSnapshot, DepthUpdate, OrderBookEntry } from "@/lib/types";
+import { OrderBookEngine } from "@/lib/order-book-engine";
+import { Decimal } from "@/lib/decimal";
+
+const AUDIT_INTERVAL_MS = 60_000;
+const CATCH_UP_TIMEOUT_MS = 10_000; // How long the local book may lag the audit snapshot
+const MAX_RECORDED_DIFFS = 10_000;
+
+export interface LevelMismatch {
+  side: "bids" | "asks";
+  price: string;
+  kind: "missing" | "unexpected" | "quantity"; // Missing locally, only present locally, or a different quantity
+  expected: string | null; // Quantity in the exchange snapshot
+  actual: string | null; // Quantity in the local book
+}
+
+export interface AuditReport {
+  symbol: string;
+  timestamp: number;
+  snapshotUpdateId: number; // lastUpdateId of the audit snapshot
+  comparedUpdateId: number; // Update ID both books were aligned to
+  levelsCompared: number;
+  mismatches: LevelMismatch[];
+  divergence: number; // Share of compared levels that mismatched, 0..1
+}
+
+export interface BookAuditorOptions {
+  symbol: string;
+  engine: OrderBookEngine;
+  fetchSnapshot: () => Promise<DepthSnapshot>;
+  onReport: (report: AuditReport) => void;
+  onDivergence?: (report: AuditReport) => void;
+  intervalMs?: number;
+  resyncThreshold?: number | null; // Divergence above which onDivergence fires; null never fires
+}
+
+/**
+ * Periodically checks the locally maintained book against a fresh exchange
+ * snapshot.
+ *
+ * The snapshot and the local book are almost never at the same update ID, so
+ * the auditor records every diff the engine applies, replays the ones after
+ * the snapshot onto a scratch engine seeded with it, and compares the two books
+ * once both sit at the same lastUpdateId. Only prices inside both the audit
+ * snapshot's depth and the depth of the snapshot the local book was built
+ * from are compared: beyond either edge one of the books is incomplete, and
+ * once the price moves the two edges no longer line up.
+ */
+export class BookAuditor {
+  private readonly options: BookAuditorOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(options: BookAuditorOptions) {
+    this.options = options;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.audit().catch((error) => console.warn("Order book audit failed:", error));
+    }, this.options.intervalMs ?? AUDIT_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Runs one audit. Resolves with null when the books could not be aligned. */
+  async audit(): Promise<AuditReport | null> {
+    const { engine, symbol } = this.options;
+    if (this.running || !engine.isSynced()) return null;
+    this.running = true;
+
+    // Record from before the snapshot request so every diff after it is captured.
+    const recorded: DepthUpdate[] = [];
+    let onApplied: ((lastUpdateId: number) => void) | null = null;
+    const unsubscribe = engine.subscribe((event) => {
+      if (event.type !== "applied") return;
+      recorded.push(event.update);
+      if (recorded.length > MAX_RECORDED_DIFFS) recorded.shift();
+      onApplied?.(event.lastUpdateId);
+    });
+
+    try {
+      const snapshot = await this.options.fetchSnapshot();
+
+      if ((engine.getLastUpdateId() ?? 0) < snapshot.lastUpdateId) {
+        const caughtUp = await new Promise<boolean>((resolve) => {
+          const timeout = setTimeout(() => resolve(false), CATCH_UP_TIMEOUT_MS);
+          onApplied = (lastUpdateId) => {
+            if (lastUpdateId < snapshot.lastUpdateId) return;
+            clearTimeout(timeout);
+            resolve(true);
+          };
+        });
+        if (!caughtUp) return null;
+      }
+
+      // Roll the snapshot forward to the local book's update ID.
+      const localUpdateId = engine.getLastUpdateId();
+      const scratch = new OrderBookEngine();
+      scratch.applySnapshot(snapshot);
+      for (const update of recorded) {
+        if (update.u > (localUpdateId ?? 0)) break;
+        scratch.applyDiff(update);
+      }
+      if (localUpdateId === null || scratch.getLastUpdateId() !== localUpdateId) return null;
+
+      const remote = scratch.getLevels();
+      const local = engine.getLevels();
+      const localEdge = engine.getDepthEdge();
+      const bids = compareSide("bids", remote.bids, local.bids, [
+        snapshot.bids[snapshot.bids.length - 1]?.[0],
+        localEdge.bids,
+      ]);
+      const asks = compareSide("asks", remote.asks, local.asks, [
+        snapshot.asks[snapshot.asks.length - 1]?.[0],
+        localEdge.asks,
+      ]);
+      const mismatches = [...bids.mismatches, ...asks.mismatches];
+      const levelsCompared = bids.compared + asks.compared;
+
+      const report: AuditReport = {
+        symbol,
+        timestamp: Date.now(),
+        snapshotUpdateId: snapshot.lastUpdateId,
+        comparedUpdateId: localUpdateId,
+        levelsCompared,
+        mismatches,
+        divergence: levelsCompared > 0 ? mismatches.length / levelsCompared : 0,
+      };
+
+      this.options.onReport(report);
+      const threshold = this.options.resyncThreshold;
+      if (threshold != null && report.divergence > threshold) {
+        this.options.onDivergence?.(report);
+      }
+      return report;
+    } finally {
+      unsubscribe();
+      this.running = false;
+    }
+  }
+}
+
+// Compares one side between the best price and the shallower of the two snapshot edges.
+const compareSide = (
+  side: "bids" | "asks",
+  remote: OrderBookEntry[],
+  local: OrderBookEntry[],
+  edges: (string | null | undefined)[]
+) => {
+  const mismatches: LevelMismatch[] = [];
+  if (edges.some((edge) => edge == null)) return { mismatches, compared: 0 };
+
+  const direction = side === "bids" ? 1 : -1;
+  const deepest = edges
+    .map((edge) => Decimal.parse(edge!))
+    .reduce((shallowest, edge) => (edge.compare(shallowest) * direction > 0 ? edge : shallowest));
+  const inRange = ([price]: OrderBookEntry) => Decimal.parse(price).compare(deepest) * direction >= 0;
+  const remoteLevels = remote.filter(inRange);
+  const localLevels = new Map(local.filter(inRange));
+  const compared = new Set([...remoteLevels.map(([price]) => price), ...localLevels.keys()]).size;
+
+  for (const [price, expected] of remoteLevels) {
+    const actual = localLevels.get(price);
+    localLevels.delete(price);
+    if (actual === undefined) {
+      mismatches.push({ side, price, kind: "missing", expected, actual: null });
+    } else if (actual !== expected) {
+      mismatches.push({ side, price, kind: "quantity", expected, actual });
+    }
+  }
+  localLevels.forEach((actual, price) => {
+    mismatches.push({ side, price, kind: "unexpected", expected: null, actual });
+  });
+  return { mismatches, compared };
+};
@@ -0,0 +1,54 @@
+interface CacheEntry<T> {
+  promise: Promise<T>;
+  expiresAt: number; // Infinity while the load is in flight
+}
+
+/**
+ * A small TTL cache for the API routes that also coalesces concurrent loads:
+ * callers asking for a key that is already being loaded share the same
+ * promise instead of each hitting Binance. Failed loads are never cached.
+ * Entries live in module state, so the cache is per server instance.
+ */
+export class CoalescingCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries = 100
+  ) {}
+
+  /**
+   * Returns the cached value for `key`, loading it when missing or expired.
+   * With `fresh`, only a load still in flight is shared: a value that has
+   * already resolved is never returned, though the new load replaces it.
+   */
+  get(key: string, load: () => Promise<T>, { fresh = false } = {}): Promise<T> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && (fresh ? cached.expiresAt === Infinity : cached.expiresAt > now)) return cached.promise;
+
+    const entry: CacheEntry<T> = { promise: load(), expiresAt: Infinity };
+    this.entries.set(key, entry);
+    this.evict(now);
+    entry.promise.then(
+      () => {
+        entry.expiresAt = Date.now() + this.ttlMs;
+      },
+      () => {
+        if (this.entries.get(key) === entry) this.entries.delete(key);
+      }
+    );
+    return entry.promise;
+  }
+
+  // Drops expired entries, then the oldest ones while over capacity.
+  private evict(now: number) {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+    const keys = Array.from(this.entries.keys());
+    for (let i = 0; this.entries.size > this.maxEntries && i < keys.length; i++) {
+      this.entries.delete(keys[i]);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+const pow10 = (exponent: number) => TEN ** BigInt(exponent);
+
+/**
+ * Exact fixed-point decimal: `units / 10^scale`.
+ *
+ * Prices and quantities from Binance are decimal strings; doing arithmetic on
+ * them as floats drifts (0.1 + 0.2) and turns equal keys such as
+ * "65000.01000000" and "65000.01" into different map entries. Decimals are
+ * immutable, and operations on values with different scales are exact.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(ZERO, 0);
+
+  private constructor(readonly units: bigint, readonly scale: number) {}
+
+  /**
+   * Parses a decimal string. With `scale`, the value is normalised to that many
+   * fraction digits (extra digits are truncated); otherwise the scale is the
+   * number of fraction digits in the string.
+   */
+  static parse(value: string, scale?: number): Decimal {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match || (match[2] === "" && !match[3])) {
+      throw new Error(`Invalid decimal: "${value}"`);
+    }
+    const [, sign, whole, fraction = ""] = match;
+    const digits = scale === undefined ? fraction : fraction.slice(0, scale).padEnd(scale, "0");
+    const units = BigInt((whole || "0") + digits);
+    return new Decimal(sign === "-" ? -units : units, digits.length);
+  }
+
+  static fromUnits(units: bigint, scale: number): Decimal {
+    return new Decimal(units, scale);
+  }
+
+  add(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.unitsAt(scale) + other.unitsAt(scale), scale);
+  }
+
+  sub(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.unitsAt(scale) - other.unitsAt(scale), scale);
+  }
+
+  mul(other: Decimal): Decimal {
+    return new Decimal(this.units * other.units, this.scale + other.scale);
+  }
+
+  compare(other: Decimal): -1 | 0 | 1 {
+    const scale = Math.max(this.scale, other.scale);
+    const a = this.unitsAt(scale);
+    const b = other.unitsAt(scale);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO;
+  }
+
+  isNegative(): boolean {
+    return this.units < ZERO;
+  }
+
+  /** Changes the scale, truncating towards zero when digits are dropped. */
+  rescale(scale: number): Decimal {
+    if (scale >= this.scale) return new Decimal(this.unitsAt(scale), scale);
+    return new Decimal(this.units / pow10(this.scale - scale), scale);
+  }
+
+  /** Formats with `digits` fraction digits, rounding half away from zero. */
+  toFixed(digits: number): string {
+    if (digits >= this.scale) return this.rescale(digits).toString();
+    const divisor = pow10(this.scale - digits);
+    const negative = this.units < ZERO;
+    const magnitude = negative ? -this.units : this.units;
+    let rounded = magnitude / divisor;
+    if ((magnitude % divisor) * TWO >= divisor) rounded += ONE;
+    return new Decimal(negative ? -rounded : rounded, digits).toString();
+  }
+
+  toNumber(): number {
+    return parseFloat(this.toString());
+  }
+
+  /** Formats with exactly `scale` fraction digits, e.g. "65000.01000000". */
+  toString(): string {
+    const negative = this.units < ZERO;
+    const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, "0");
+    const whole = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale);
+    return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  private unitsAt(scale: number): bigint {
+    return this.units * pow10(scale - this.scale);
+  }
+}
+
+/**
+ * Number of fraction digits implied by an increment such as a tick or step
+ * size, e.g. "0.01000000" -> 2 and "1.00000000" -> 0.
+ */
+export const scaleOf = (increment: string): number => {
+  const fraction = increment.split(".")[1] ?? "";
+  return fraction.replace(/0+$/, "").length;
+};
@@ -0,0 +1,75 @@
+import type { OrderBookEntry } from "@/lib/types";
+import { Decimal } from "@/lib/decimal";
+import { groupLevels } from "@/lib/price-grouping";
+
+export type BookSide = "bids" | "asks";
+
+export interface DepthLevel {
+  price: string;
+  amount: string;
+  total: Decimal; // Cumulative amount from the best level down to this one
+  depth: number; // Total as a percentage of the deepest level shown
+}
+
+/** Adds cumulative totals and depth bar widths to levels sorted best first. */
+export const accumulateLevels = (levels: readonly OrderBookEntry[]): DepthLevel[] => {
+  let cumulativeTotal = Decimal.ZERO;
+  const totals = levels.map(([, amount]) => {
+    cumulativeTotal = cumulativeTotal.add(Decimal.parse(amount));
+    return cumulativeTotal;
+  });
+
+  const maxTotal = totals.length > 0 ? totals[totals.length - 1].toNumber() : 0;
+
+  return levels.map(([price, amount], index) => ({
+    price,
+    amount,
+    total: totals[index],
+    depth: maxTotal > 0 ? (totals[index].toNumber() / maxTotal) * 100 : 0,
+  }));
+};
+
+export const TOP_LEVELS = 20; // Levels per side in the compact book
+
+/**
+ * Groups one side by `grouping` when set and keeps the best `limit` levels, or
+ * all of them without a limit. Grouping happens before slicing, so a limited
+ * side still holds `limit` whole groups.
+ */
+export const selectLevels = (
+  data: readonly OrderBookEntry[],
+  side: BookSide,
+  grouping: string | null,
+  limit?: number
+): readonly OrderBookEntry[] => {
+  const levels = grouping ? groupLevels(data, grouping, side) : data;
+  return limit === undefined ? levels : levels.slice(0, limit);
+};
+
+/**
+ * Keeps the levels within `percent` of `midPrice`: bids at or above the lower
+ * bound, asks at or below the upper one. Levels must be sorted best first.
+ */
+export const filterPriceBand = (
+  levels: readonly OrderBookEntry[],
+  side: BookSide,
+  midPrice: number,
+  percent: number
+): readonly OrderBookEntry[] => {
+  const bound = side === "bids" ? midPrice * (1 - percent / 100) : midPrice * (1 + percent / 100);
+  const end = levels.findIndex(([price]) => (side === "bids" ? Number(price) < bound : Number(price) > bound));
+  return end === -1 ? levels : levels.slice(0, end);
+};
+
+/**
+ * Index of the level at `price`, or of the first level beyond it (lower for
+ * bids, higher for asks). Clamped to the last level; -1 when there are none.
+ */
+export const findPriceIndex = (levels: readonly DepthLevel[], side: BookSide, price: Decimal): number => {
+  if (levels.length === 0) return -1;
+  const index = levels.findIndex((level) => {
+    const order = Decimal.parse(level.price).compare(price);
+    return side === "bids" ? order <= 0 : order >= 0;
+  });
+  return index === -1 ? levels.length - 1 : index;
+};
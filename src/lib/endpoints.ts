@@ -0,0 +1,85 @@
+export type EndpointProfileId = "production" | "testnet" | "binance-us" | "market-data" | "custom";
+
+export interface EndpointProfile {
+  id: EndpointProfileId;
+  label: string;
+  restUrl: string; // Base URL the API routes proxy to, without a trailing slash
+  restFallbackUrls: string[]; // Mirrors tried in order when restUrl is down or refuses the region
+  streamUrl: string; // Combined-stream WebSocket endpoint
+  wsApiUrl: string | null; // WebSocket API endpoint, null where the host has none
+}
+
+const PRESET_PROFILES: EndpointProfile[] = [
+  {
+    id: "production",
+    label: "Binance Spot",
+    restUrl: "https://api.binance.com",
+    restFallbackUrls: [
+      "https://api1.binance.com",
+      "https://api2.binance.com",
+      "https://api3.binance.com",
+      "https://api4.binance.com",
+      "https://data-api.binance.vision",
+    ],
+    streamUrl: "wss://stream.binance.com:9443/stream",
+    wsApiUrl: "wss://ws-api.binance.com:443/ws-api/v3",
+  },
+  {
+    id: "testnet",
+    label: "Spot Testnet",
+    restUrl: "https://testnet.binance.vision",
+    restFallbackUrls: [],
+    streamUrl: "wss://stream.testnet.binance.vision/stream",
+    wsApiUrl: "wss://ws-api.testnet.binance.vision/ws-api/v3",
+  },
+  {
+    id: "binance-us",
+    label: "Binance.US",
+    restUrl: "https://api.binance.us",
+    restFallbackUrls: [],
+    streamUrl: "wss://stream.binance.us:9443/stream",
+    wsApiUrl: "wss://ws-api.binance.us:443/ws-api/v3",
+  },
+  {
+    id: "market-data",
+    label: "Market Data Only",
+    restUrl: "https://data-api.binance.vision",
+    restFallbackUrls: [],
+    streamUrl: "wss://data-stream.binance.vision/stream",
+    wsApiUrl: null,
+  },
+];
+
+// A custom profile (a local mock or a relay) exists only when its URLs are configured.
+const customProfile = (): EndpointProfile | null => {
+  const restUrl = process.env.NEXT_PUBLIC_CUSTOM_REST_URL;
+  const streamUrl = process.env.NEXT_PUBLIC_CUSTOM_STREAM_URL;
+  if (!restUrl || !streamUrl) return null;
+  return {
+    id: "custom",
+    label: "Custom",
+    restUrl: restUrl.replace(/\/+$/, ""),
+    restFallbackUrls: [],
+    streamUrl,
+    wsApiUrl: process.env.NEXT_PUBLIC_CUSTOM_WS_API_URL || null,
+  };
+};
+
+/** Every profile that can be used in this deployment. */
+export const getEndpointProfiles = (): EndpointProfile[] => {
+  const custom = customProfile();
+  return custom ? [...PRESET_PROFILES, custom] : PRESET_PROFILES;
+};
+
+/**
+ * Resolves a profile id, or the configured default when no id is given.
+ * Returns null for unknown ids so API routes can reject them; clients can only
+ * choose among named profiles, never pass an arbitrary upstream URL.
+ */
+export const getEndpointProfile = (id?: string | null): EndpointProfile | null => {
+  const wanted = id || process.env.NEXT_PUBLIC_BINANCE_PROFILE || "production";
+  return getEndpointProfiles().find((profile) => profile.id === wanted) ?? null;
+};
+
+/** The configured default profile, falling back to production when the setting is invalid. */
+export const getDefaultEndpointProfile = (): EndpointProfile => getEndpointProfile() ?? PRESET_PROFILES[0];
@@ -0,0 +1,57 @@
+import type { OrderBookEntry, Trade } from "@/lib/types";
+import type { CrossedBook } from "@/lib/order-book-engine";
+import type { AuditReport } from "@/lib/book-auditor";
+import type { StatusTransition } from "@/lib/sync-state-machine";
+import type { StreamHealth } from "@/lib/stream-health";
+import type { ClockState } from "@/lib/server-clock";
+import type { EndpointProfileId } from "@/lib/endpoints";
+import type { UpstreamErrorInfo } from "@/lib/upstream-error";
+import type { QuarantineState } from "@/lib/frame-quarantine";
+
+// Messages exchanged between useBinanceData and the feed worker. Each hook
+// instance owns one feed, addressed by feedId.
+
+/** The part of the book the UI shows, so the feed only sends those levels. */
+export interface BookSelection {
+  depth: "top" | "full"; // The best TOP_LEVELS levels per side, or the whole book for the full-depth view
+  grouping: string | null; // Price grouping step, null for raw levels
+}
+
+/** Levels as selected by the UI: grouped in the worker and cut to the requested depth. */
+export interface BookLevels extends BookSelection {
+  version: number;
+  lastUpdateId: number | null;
+  bids: readonly OrderBookEntry[]; // Highest price first
+  asks: readonly OrderBookEntry[]; // Lowest price first
+  bestBid: string | null; // Ungrouped best prices, since grouping rounds away from the touch
+  bestAsk: string | null;
+}
+
+export type FeedRequest =
+  | { type: "subscribe"; feedId: number; symbol: string; profile: EndpointProfileId }
+  | { type: "book-selection"; feedId: number; selection: BookSelection }
+  | { type: "reconnect"; feedId: number }
+  | { type: "market-status"; feedId: number; trading: boolean }
+  | { type: "unsubscribe"; feedId: number };
+
+export interface RetryState {
+  at: number; // Epoch milliseconds of the next attempt
+  attempt: number; // Consecutive failures so far
+  circuitOpen: boolean; // Retry budget spent, pausing before a final attempt
+}
+
+export interface FeedUpdate {
+  book?: BookLevels;
+  trades?: Trade[]; // Most recent first
+  transition?: StatusTransition; // Sync state change, published immediately
+  error?: { title: string; description: string };
+  audit?: AuditReport; // Latest book integrity audit
+  health?: StreamHealth; // Published every second
+  clock?: ClockState; // Server clock estimate, published with health
+  quarantine?: QuarantineState; // Frames rejected by schema validation, published with health
+  retry?: RetryState | null; // Pending backoff, null once the retry has run
+  crossed?: CrossedBook | null; // Set while a crossed or locked book is being resynced, null once cleared
+  upstream?: UpstreamErrorInfo | null; // Why Binance refused the last snapshot, null once one succeeds
+}
+
+export type FeedMessage = { type: "update"; feedId: number } & FeedUpdate;
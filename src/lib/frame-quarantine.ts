@@ -0,0 +1,47 @@
+const MAX_RECENT = 20;
+const MAX_FRAME_LENGTH = 500; // Characters kept from each rejected frame
+
+export interface RejectedFrame {
+  at: number;
+  source: string; // Stream name, or the REST resource
+  reason: string;
+  frame: string; // Truncated raw payload
+}
+
+export interface QuarantineState {
+  rejected: number; // Since the worker started
+  bySource: Record<string, number>;
+  recent: RejectedFrame[]; // Newest first
+}
+
+/**
+ * Collects payloads that failed schema validation instead of letting them
+ * reach the book. Keeps counts per source and the most recent frames for the
+ * diagnostics panel, and logs each source and reason only the first time, so a
+ * stream that keeps sending bad frames does not flood the console.
+ */
+export class FrameQuarantine {
+  private rejected = 0;
+  private bySource: Record<string, number> = {};
+  private recent: RejectedFrame[] = [];
+  private readonly logged = new Set<string>();
+
+  record(source: string, frame: unknown, reason: string) {
+    this.rejected++;
+    this.bySource = { ...this.bySource, [source]: (this.bySource[source] ?? 0) + 1 };
+    const text = typeof frame === "string" ? frame : JSON.stringify(frame) ?? String(frame);
+    this.recent = [
+      { at: Date.now(), source, reason, frame: text.slice(0, MAX_FRAME_LENGTH) },
+      ...this.recent,
+    ].slice(0, MAX_RECENT);
+    const key = `${source}\n${reason}`;
+    if (!this.logged.has(key)) {
+      this.logged.add(key);
+      console.warn(`Rejected ${source} frame: ${reason} (further rejections are counted in diagnostics)`);
+    }
+  }
+
+  getState(): QuarantineState {
+    return { rejected: this.rejected, bySource: this.bySource, recent: this.recent };
+  }
+}
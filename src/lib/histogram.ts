@@ -0,0 +1,22 @@
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+/**
+ * Counts values into buckets split at `bounds` (ascending), with open-ended
+ * buckets below the first and above the last bound.
+ */
+export const buildHistogram = (values: readonly number[], bounds: readonly number[], unit = "ms"): HistogramBucket[] => {
+  const buckets: HistogramBucket[] = [
+    { label: `<${bounds[0]}${unit}`, count: 0 },
+    ...bounds.slice(1).map((bound, i) => ({ label: `${bounds[i]}–${bound}${unit}`, count: 0 })),
+    { label: `≥${bounds[bounds.length - 1]}${unit}`, count: 0 },
+  ];
+  for (const value of values) {
+    let index = 0;
+    while (index < bounds.length && value >= bounds[index]) index++;
+    buckets[index].count++;
+  }
+  return buckets;
+};
@@ -0,0 +1,73 @@
+import type { ExchangeSymbol } from "@/lib/types";
+
+export interface MarketStatus {
+  status: string; // Raw exchange info status
+  label: string;
+  description: string;
+  trading: boolean; // Streams only move while the market trades
+  selectable: boolean; // Delisted markets have no book to show
+}
+
+
+/** Describes an exchange info symbol's status for the picker and the market banner. */
+export const getMarketStatus = (symbol: ExchangeSymbol): MarketStatus => {
+  const { status } = symbol;
+  switch (status) {
+    case "TRADING":
+      return { status, label: "Trading", description: "", trading: true, selectable: true };
+    case "PRE_TRADING":
+    case "AUCTION_MATCH":
+      return {
+        status,
+        label: "Opening auction",
+        description: "The market is in its opening auction; trading has not started yet.",
+        trading: false,
+        selectable: true,
+      };
+    case "HALT":
+      return {
+        status,
+        label: "Halted",
+        description: "Binance has halted trading on this market. The book and trades will not move until it resumes.",
+        trading: false,
+        selectable: true,
+      };
+    case "BREAK":
+      // Binance spot reports delisted pairs as BREAK too, but with spot trading withdrawn.
+      if (symbol.isSpotTradingAllowed === false) {
+        return {
+          status,
+          label: "Delisted",
+          description: "Binance has withdrawn trading on this market; it no longer trades.",
+          trading: false,
+          selectable: false,
+        };
+      }
+      return {
+        status,
+        label: "Trading suspended",
+        description:
+          "Binance has suspended trading on this market, for maintenance or ahead of a delisting. " +
+          "The book and trades will not move unless it resumes.",
+        trading: false,
+        selectable: true,
+      };
+    case "POST_TRADING":
+    case "END_OF_DAY":
+      return {
+        status,
+        label: "Delisted",
+        description: "This market no longer trades on Binance.",
+        trading: false,
+        selectable: false,
+      };
+    default:
+      return {
+        status,
+        label: status,
+        description: `Binance reports the market status as ${status}.`,
+        trading: false,
+        selectable: true,
+      };
+  }
+};
@@ -0,0 +1,251 @@
+import type { DepthSnapshot, DepthUpdate, OrderBookEntry } from "@/lib/types";
+import { PriceLevels } from "@/lib/price-levels";
+
+export type SyncEvent =
+  | { type: "synced"; lastUpdateId: number } // First diff after the snapshot lined up
+  | { type: "applied"; lastUpdateId: number; update: DepthUpdate } // Diff applied to the book
+  | { type: "gap"; lastUpdateId: number; update: DepthUpdate } // A diff was missed, the book needs a new snapshot
+  | { type: "stale"; lastUpdateId: number; update: DepthUpdate } // Diff already covered by the book, dropped
+  | ({ type: "crossed" } & CrossedBook); // Best bid reached the best ask, the book is corrupt
+
+/** Top of a book whose best bid is at (locked) or above (crossed) its best ask. */
+export interface CrossedBook {
+  lastUpdateId: number;
+  bestBid: OrderBookEntry;
+  bestAsk: OrderBookEntry;
+  locked: boolean;
+}
+
+export type SyncListener = (event: SyncEvent) => void;
+
+// Binance returns prices and quantities with 8 fraction digits, finer than any tick or step size.
+const BINANCE_SCALE = 8;
+// Diffs buffered while waiting for a snapshot; older ones are dropped, which the replay reports as a gap.
+const MAX_QUEUED_DIFFS = 5000;
+
+export interface DepthEdge {
+  bids: string | null; // null before a snapshot, or when its side was empty
+  asks: string | null;
+}
+
+/** Immutable, pre-sorted copy of the top of the book at a given version. */
+export interface OrderBookView {
+  version: number;
+  lastUpdateId: number | null;
+  bids: readonly OrderBookEntry[]; // Highest price first
+  asks: readonly OrderBookEntry[]; // Lowest price first
+}
+
+/**
+ * Maintains a local order book from a depth snapshot plus the diff depth stream,
+ * following Binance's "how to manage a local order book correctly" procedure.
+ *
+ * Diffs received before a snapshot are buffered and replayed once the snapshot
+ * arrives. After a gap (or an explicit resync) the current book is kept as-is
+ * while diffs are buffered, and the next snapshot replaces it in one step, so
+ * readers never see an empty book during recovery. The engine has no React or
+ * WebSocket dependency, so it can run in a hook, a worker, a server process or
+ * a CLI.
+ */
+export class OrderBookEngine {
+  private readonly bids = new PriceLevels("bids", BINANCE_SCALE, BINANCE_SCALE);
+  private readonly asks = new PriceLevels("asks", BINANCE_SCALE, BINANCE_SCALE);
+  private lastUpdateId: number | null = null;
+  private firstUpdateProcessed = false;
+  private crossed = false;
+  private eventQueue: DepthUpdate[] = [];
+  private depthEdge: DepthEdge = { bids: null, asks: null };
+  private listeners = new Set<SyncListener>();
+  private version = 0;
+  private cachedView: OrderBookView | null = null;
+  private cachedDepth = 0;
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Replaces the book with a REST snapshot and replays any buffered diffs. */
+  applySnapshot(snapshot: DepthSnapshot) {
+    this.bids.clear();
+    this.asks.clear();
+    this.updateSide(this.bids, snapshot.bids);
+    this.updateSide(this.asks, snapshot.asks);
+    this.depthEdge = {
+      bids: snapshot.bids[snapshot.bids.length - 1]?.[0] ?? null,
+      asks: snapshot.asks[snapshot.asks.length - 1]?.[0] ?? null,
+    };
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.firstUpdateProcessed = false;
+    this.crossed = false;
+    this.version++;
+
+    const queued = this.eventQueue;
+    this.eventQueue = [];
+    for (let i = 0; i < queued.length; i++) {
+      // A gap during replay drops the engine back to buffering; keep the rest queued.
+      if (!this.applyDiff(queued[i]) && this.lastUpdateId === null) {
+        this.eventQueue.push(...queued.slice(i + 1));
+        break;
+      }
+    }
+    this.checkCrossed();
+  }
+
+  /**
+   * Applies a diff depth event. Returns true when the diff changed the book.
+   * Without a snapshot the diff is buffered; on a gap the engine emits "gap"
+   * and buffers that diff and the ones after it until the next snapshot.
+   */
+  applyDiff(update: DepthUpdate): boolean {
+    if (this.lastUpdateId === null) {
+      this.eventQueue.push(update);
+      if (this.eventQueue.length > MAX_QUEUED_DIFFS) this.eventQueue.shift();
+      return false;
+    }
+
+    const lastUpdateId = this.lastUpdateId;
+
+    if (update.u <= lastUpdateId) {
+      this.emit({ type: "stale", lastUpdateId, update });
+      return false;
+    }
+
+    const aligned = this.firstUpdateProcessed
+      ? update.U === lastUpdateId + 1
+      : update.U <= lastUpdateId + 1 && update.u >= lastUpdateId + 1;
+
+    if (!aligned) {
+      // Keep the diff: it may line up with the next snapshot.
+      this.lastUpdateId = null;
+      this.firstUpdateProcessed = false;
+      this.eventQueue.push(update);
+      this.emit({ type: "gap", lastUpdateId, update });
+      return false;
+    }
+
+    this.updateSide(this.bids, update.b);
+    this.updateSide(this.asks, update.a);
+    this.lastUpdateId = update.u;
+    this.version++;
+    this.emit({ type: "applied", lastUpdateId: update.u, update });
+
+    if (!this.firstUpdateProcessed) {
+      this.firstUpdateProcessed = true;
+      this.emit({ type: "synced", lastUpdateId: update.u });
+    }
+    this.checkCrossed();
+    return true;
+  }
+
+  /**
+   * Starts buffering diffs until the next snapshot while keeping the current
+   * book readable.
+   */
+  startResync() {
+    this.lastUpdateId = null;
+    this.firstUpdateProcessed = false;
+  }
+
+  /** Clears the book and any buffered diffs. */
+  reset() {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = null;
+    this.firstUpdateProcessed = false;
+    this.crossed = false;
+    this.eventQueue = [];
+    this.depthEdge = { bids: null, asks: null };
+    this.version++;
+  }
+
+  /**
+   * Returns the top `depth` levels of each side. Views are frozen and cached per
+   * version, so callers get the same object back until the book changes.
+   */
+  getView(depth: number): OrderBookView {
+    if (this.cachedView && this.cachedView.version === this.version && this.cachedDepth === depth) {
+      return this.cachedView;
+    }
+    this.cachedDepth = depth;
+    const { bids, asks } = this.getLevels(depth);
+    this.cachedView = Object.freeze({
+      version: this.version,
+      lastUpdateId: this.lastUpdateId,
+      bids: Object.freeze(bids),
+      asks: Object.freeze(asks),
+    });
+    return this.cachedView;
+  }
+
+  /** Returns a fresh, uncached copy of up to `depth` levels per side (all by default). */
+  getLevels(depth?: number): { bids: OrderBookEntry[]; asks: OrderBookEntry[] } {
+    return { bids: this.bids.top(depth), asks: this.asks.top(depth) };
+  }
+
+  /**
+   * Deepest price of each side in the last snapshot. Diffs only report levels
+   * that change, so beyond this edge the book holds just the levels touched
+   * since and is not complete.
+   */
+  getDepthEdge(): DepthEdge {
+    return this.depthEdge;
+  }
+
+  getLastUpdateId(): number | null {
+    return this.lastUpdateId;
+  }
+
+  /** True while diffs are being buffered for an upcoming snapshot. */
+  isAwaitingSnapshot(): boolean {
+    return this.lastUpdateId === null;
+  }
+
+  /** True while the best bid is at or above the best ask. */
+  isCrossed(): boolean {
+    return this.crossed;
+  }
+
+  /** True once a snapshot is loaded and the first diff has lined up with it. */
+  isSynced(): boolean {
+    return this.lastUpdateId !== null && this.firstUpdateProcessed;
+  }
+
+  /** Incremented on every change to the book, for cheap change detection. */
+  getVersion(): number {
+    return this.version;
+  }
+
+  private updateSide(side: PriceLevels, updates: OrderBookEntry[]) {
+    for (const [price, quantity] of updates) {
+      side.set(price, quantity);
+    }
+  }
+
+  // A valid book always has best bid < best ask; emit once when that stops holding.
+  private checkCrossed() {
+    if (this.lastUpdateId === null) return;
+    const bidPrice = this.bids.bestPrice();
+    const askPrice = this.asks.bestPrice();
+    const crossed = bidPrice !== undefined && askPrice !== undefined && bidPrice >= askPrice;
+
+    if (crossed && !this.crossed) {
+      this.crossed = true;
+      this.emit({
+        type: "crossed",
+        lastUpdateId: this.lastUpdateId,
+        bestBid: this.bids.best()!,
+        bestAsk: this.asks.best()!,
+        locked: bidPrice === askPrice,
+      });
+    } else if (!crossed) {
+      this.crossed = false;
+    }
+  }
+
+  private emit(event: SyncEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,55 @@
+import type { OrderBookEntry } from "@/lib/types";
+import { Decimal, scaleOf } from "@/lib/decimal";
+
+// Multiples of the tick size offered as grouping steps, e.g. 0.01 → 0.01 … 100.
+const GROUPING_MULTIPLIERS = ["1", "10", "100", "1000", "5000", "10000"];
+
+/**
+ * Grouping steps for a symbol, finest first, as normalised decimal strings.
+ * The first step is the tick size itself, i.e. no grouping.
+ */
+export const getGroupingSteps = (tickSize: string): string[] => {
+  const tick = Decimal.parse(tickSize);
+  if (tick.isZero()) return [];
+  return GROUPING_MULTIPLIERS.map((multiplier) => {
+    const step = tick.mul(Decimal.parse(multiplier));
+    return step.toFixed(scaleOf(step.toString()));
+  });
+};
+
+/**
+ * Buckets one side of the book into price groups of `step`, summing the
+ * amounts. Bids round down and asks round up, so a group never advertises a
+ * better price than the levels in it. Levels must be sorted best first, which
+ * keeps each group contiguous.
+ */
+export const groupLevels = (
+  levels: readonly OrderBookEntry[],
+  step: string,
+  side: "bids" | "asks"
+): OrderBookEntry[] => {
+  const stepValue = Decimal.parse(step);
+  const stepDecimals = scaleOf(step);
+  const grouped: OrderBookEntry[] = [];
+  let groupPrice: string | null = null;
+  let groupAmount = Decimal.ZERO;
+
+  levels.forEach(([price, amount]) => {
+    const value = Decimal.parse(price);
+    const scale = Math.max(value.scale, stepValue.scale);
+    const units = value.rescale(scale).units;
+    const stepUnits = stepValue.rescale(scale).units;
+    const remainder = units % stepUnits;
+    const bucketUnits = side === "bids" || remainder === BigInt(0) ? units - remainder : units - remainder + stepUnits;
+    const bucket = Decimal.fromUnits(bucketUnits, scale).toFixed(stepDecimals);
+
+    if (bucket !== groupPrice) {
+      if (groupPrice !== null) grouped.push([groupPrice, groupAmount.toString()]);
+      groupPrice = bucket;
+      groupAmount = Decimal.ZERO;
+    }
+    groupAmount = groupAmount.add(Decimal.parse(amount));
+  });
+  if (groupPrice !== null) grouped.push([groupPrice, groupAmount.toString()]);
+  return grouped;
+};
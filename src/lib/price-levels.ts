@@ -0,0 +1,92 @@
+import type { OrderBookEntry } from "@/lib/types";
+import { Decimal } from "@/lib/decimal";
+
+/**
+ * One side of an order book kept sorted by price, best level first.
+ *
+ * Prices are stored as fixed-point integers at the given price scale, so
+ * "65000.01000000" and "65000.01" address the same level, and quantities are
+ * normalised to the quantity scale. Levels live in parallel arrays so lookups
+ * are a binary search and quantity changes on an existing level are updated in
+ * place. Inserting or removing a level shifts the arrays, which is a single
+ * memmove for the ~1000 levels a snapshot holds. Reading the top k levels is
+ * O(k) and never re-sorts.
+ */
+export class PriceLevels {
+  private prices: bigint[] = [];
+  private keys: string[] = [];
+  private quantities: string[] = [];
+
+  constructor(
+    private readonly side: "bids" | "asks",
+    private readonly priceScale: number,
+    private readonly quantityScale: number
+  ) {}
+
+  get size(): number {
+    return this.prices.length;
+  }
+
+  /** Sets the quantity at a price level, removing the level when the quantity is zero. */
+  set(price: string, quantity: string) {
+    const normalisedPrice = Decimal.parse(price, this.priceScale);
+    const normalisedQuantity = Decimal.parse(quantity, this.quantityScale);
+    const index = this.search(normalisedPrice.units);
+    const exists = index < this.prices.length && this.prices[index] === normalisedPrice.units;
+
+    if (normalisedQuantity.isZero()) {
+      if (exists) {
+        this.prices.splice(index, 1);
+        this.keys.splice(index, 1);
+        this.quantities.splice(index, 1);
+      }
+    } else if (exists) {
+      this.quantities[index] = normalisedQuantity.toString();
+    } else {
+      this.prices.splice(index, 0, normalisedPrice.units);
+      this.keys.splice(index, 0, normalisedPrice.toString());
+      this.quantities.splice(index, 0, normalisedQuantity.toString());
+    }
+  }
+
+  /** Returns up to `depth` levels, best price first. */
+  top(depth = this.prices.length): OrderBookEntry[] {
+    const count = Math.min(depth, this.prices.length);
+    const levels: OrderBookEntry[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      levels[i] = [this.keys[i], this.quantities[i]];
+    }
+    return levels;
+  }
+
+  best(): OrderBookEntry | undefined {
+    return this.prices.length > 0 ? [this.keys[0], this.quantities[0]] : undefined;
+  }
+
+  /** Best price as fixed-point units at the price scale, for cheap comparisons. */
+  bestPrice(): bigint | undefined {
+    return this.prices[0];
+  }
+
+  clear() {
+    this.prices = [];
+    this.keys = [];
+    this.quantities = [];
+  }
+
+  // Index of the first level that sorts at or after `price`.
+  private search(price: bigint): number {
+    let low = 0;
+    let high = this.prices.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const before = this.side === "bids" ? this.prices[mid] > price : this.prices[mid] < price;
+      if (before) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,293 @@
+import { z } from "zod";
+import type {
+  AggTradeEvent,
+  BookTickerEvent,
+  DepthSnapshot,
+  DepthUpdate,
+  ExchangeInfo,
+  KlineEvent,
+  KlineInterval,
+  MarketStreamEvent,
+  MarketStreamKind,
+  MiniTickerEvent,
+  PartialDepthLevels,
+  TickerEvent,
+  TradeEvent,
+} from "@/lib/types";
+
+// Runtime schemas for everything read from Binance. The hand-written
+// interfaces in types.ts stay the documented shapes; the annotations below
+// make the compiler check that each schema produces exactly those types.
+
+const decimalString = z.string().regex(/^\d+(\.\d+)?$/, "Expected a decimal string");
+const level = z.tuple([decimalString, decimalString]);
+
+export const depthSnapshotSchema: z.ZodType<DepthSnapshot> = z.object({
+  lastUpdateId: z.number().int(),
+  bids: z.array(level),
+  asks: z.array(level),
+});
+
+const tradeEvent: z.ZodType<TradeEvent> = z.object({
+  e: z.literal("trade"),
+  E: z.number(),
+  s: z.string(),
+  t: z.number().int(),
+  p: decimalString,
+  q: decimalString,
+  T: z.number(),
+  m: z.boolean(),
+});
+
+const aggTradeEvent: z.ZodType<AggTradeEvent> = z.object({
+  e: z.literal("aggTrade"),
+  E: z.number(),
+  s: z.string(),
+  a: z.number().int(),
+  p: decimalString,
+  q: decimalString,
+  f: z.number().int(),
+  l: z.number().int(),
+  T: z.number(),
+  m: z.boolean(),
+});
+
+const klineInterval: z.ZodType<KlineInterval> = z.enum([
+  "1s",
+  "1m",
+  "3m",
+  "5m",
+  "15m",
+  "30m",
+  "1h",
+  "2h",
+  "4h",
+  "6h",
+  "8h",
+  "12h",
+  "1d",
+  "3d",
+  "1w",
+  "1M",
+]);
+
+const klineEvent: z.ZodType<KlineEvent> = z.object({
+  e: z.literal("kline"),
+  E: z.number(),
+  s: z.string(),
+  k: z.object({
+    t: z.number(),
+    T: z.number(),
+    s: z.string(),
+    i: klineInterval,
+    f: z.number().int(),
+    L: z.number().int(),
+    o: decimalString,
+    c: decimalString,
+    h: decimalString,
+    l: decimalString,
+    v: decimalString,
+    n: z.number().int(),
+    x: z.boolean(),
+    q: decimalString,
+    V: decimalString,
+    Q: decimalString,
+  }),
+});
+
+const miniTickerEvent: z.ZodType<MiniTickerEvent> = z.object({
+  e: z.literal("24hrMiniTicker"),
+  E: z.number(),
+  s: z.string(),
+  c: decimalString,
+  o: decimalString,
+  h: decimalString,
+  l: decimalString,
+  v: decimalString,
+  q: decimalString,
+});
+
+// Price change fields are signed.
+const signedDecimalString = z.string().regex(/^-?\d+(\.\d+)?$/, "Expected a decimal string");
+
+const tickerEvent: z.ZodType<TickerEvent> = z.object({
+  e: z.literal("24hrTicker"),
+  E: z.number(),
+  s: z.string(),
+  p: signedDecimalString,
+  P: signedDecimalString,
+  w: decimalString,
+  x: decimalString,
+  c: decimalString,
+  Q: decimalString,
+  b: decimalString,
+  B: decimalString,
+  a: decimalString,
+  A: decimalString,
+  o: decimalString,
+  h: decimalString,
+  l: decimalString,
+  v: decimalString,
+  q: decimalString,
+  O: z.number(),
+  C: z.number(),
+  F: z.number().int(),
+  L: z.number().int(),
+  n: z.number().int(),
+});
+
+const bookTickerEvent: z.ZodType<BookTickerEvent> = z.object({
+  u: z.number().int(),
+  s: z.string(),
+  b: decimalString,
+  B: decimalString,
+  a: decimalString,
+  A: decimalString,
+});
+
+const depthUpdateEvent: z.ZodType<DepthUpdate> = z.object({
+  e: z.literal("depthUpdate"),
+  E: z.number(),
+  s: z.string(),
+  U: z.number().int(),
+  u: z.number().int(),
+  b: z.array(level),
+  a: z.array(level),
+});
+
+export const serverTimeSchema = z.object({ serverTime: z.number() });
+
+export const exchangeInfoSchema: z.ZodType<ExchangeInfo> = z.object({
+  timezone: z.string(),
+  serverTime: z.number(),
+  symbols: z.array(
+    z.object({
+      symbol: z.string(),
+      status: z.string(),
+      baseAsset: z.string(),
+      quoteAsset: z.string(),
+      filters: z.array(z.object({ filterType: z.string() }).passthrough()),
+      isSpotTradingAllowed: z.boolean().optional(),
+    })
+  ),
+});
+
+/**
+ * Frame on a combined-stream socket: a stream event or the reply to a control
+ * request. Errors are matched before results because an absent `result`
+ * would satisfy z.unknown().
+ */
+export const streamFrameSchema = z.union([
+  z.object({ stream: z.string(), data: z.unknown() }),
+  z.object({ error: z.object({ code: z.number(), msg: z.string() }), id: z.number().nullable() }),
+  z.object({ result: z.unknown(), id: z.number() }),
+]);
+
+/**
+ * Response to a WebSocket API request. Rate limit rejections carry the epoch
+ * milliseconds at which the limit or ban lifts in `error.data.retryAfter`.
+ */
+export const wsApiResponseSchema = z.object({
+  id: z.string().nullable(),
+  status: z.number(),
+  result: z.unknown(),
+  error: z
+    .object({
+      code: z.number(),
+      msg: z.string(),
+      data: z.object({ retryAfter: z.number().optional() }).optional(),
+    })
+    .optional(),
+});
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+// Flattens zod issues into one line for logs and the diagnostics panel.
+export const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+
+export interface StreamDescriptor {
+  kind: MarketStreamKind;
+  symbol: string; // Upper case, as in payloads
+  interval?: KlineInterval; // kline streams
+  levels?: PartialDepthLevels; // Partial depth streams
+}
+
+const STREAM_NAME = /^([a-z0-9]+)@(trade|aggTrade|kline_(\w+)|miniTicker|ticker|bookTicker|depth(5|10|20)?)(@100ms|@1000ms)?$/;
+
+/** Reads a per-symbol stream name such as `btcusdt@kline_1m` or `ethbtc@depth20@100ms`; null for anything else. */
+export const parseStreamName = (stream: string): StreamDescriptor | null => {
+  const match = STREAM_NAME.exec(stream);
+  if (!match) return null;
+  const [, symbol, name, interval, levels, speed] = match;
+  const descriptor = { symbol: symbol.toUpperCase() };
+  if (interval !== undefined) {
+    const parsed = klineInterval.safeParse(interval);
+    return parsed.success && !speed ? { ...descriptor, kind: "kline", interval: parsed.data } : null;
+  }
+  if (name.startsWith("depth")) {
+    return levels
+      ? { ...descriptor, kind: "partialDepth", levels: Number(levels) as PartialDepthLevels }
+      : { ...descriptor, kind: "depth" };
+  }
+  return speed ? null : { ...descriptor, kind: name as MarketStreamKind };
+};
+
+const parseWith = <T>(schema: z.ZodType<T>, data: unknown): ParseResult<T> => {
+  const result = schema.safeParse(data);
+  return result.success ? { ok: true, value: result.data } : { ok: false, reason: describeIssues(result.error) };
+};
+
+const toEvent = (descriptor: StreamDescriptor, data: unknown): ParseResult<MarketStreamEvent> => {
+  const { symbol } = descriptor;
+  const wrap = <T, E extends MarketStreamEvent>(schema: z.ZodType<T>, build: (value: T) => E): ParseResult<E> => {
+    const result = parseWith(schema, data);
+    return result.ok ? { ok: true, value: build(result.value) } : result;
+  };
+  switch (descriptor.kind) {
+    case "trade":
+      return wrap(tradeEvent, (value) => ({ kind: "trade", symbol, data: value }));
+    case "aggTrade":
+      return wrap(aggTradeEvent, (value) => ({ kind: "aggTrade", symbol, data: value }));
+    case "kline":
+      return wrap(klineEvent, (value) => ({ kind: "kline", symbol, interval: value.k.i, data: value }));
+    case "miniTicker":
+      return wrap(miniTickerEvent, (value) => ({ kind: "miniTicker", symbol, data: value }));
+    case "ticker":
+      return wrap(tickerEvent, (value) => ({ kind: "ticker", symbol, data: value }));
+    case "bookTicker":
+      return wrap(bookTickerEvent, (value) => ({ kind: "bookTicker", symbol, data: value }));
+    case "partialDepth":
+      return wrap(depthSnapshotSchema, (value) => ({
+        kind: "partialDepth",
+        symbol,
+        levels: descriptor.levels ?? 20,
+        data: value,
+      }));
+    case "depth":
+      return wrap(depthUpdateEvent, (value) => ({ kind: "depth", symbol, data: value }));
+  }
+};
+
+/**
+ * Validates the payload of a combined-stream frame against the schema its
+ * stream name calls for. Payloads carrying a symbol must match the stream's,
+ * and kline payloads must match its interval.
+ */
+export const parseStreamMessage = (stream: string, data: unknown): ParseResult<MarketStreamEvent> => {
+  const descriptor = parseStreamName(stream);
+  if (!descriptor) return { ok: false, reason: `Unknown stream ${stream}` };
+  const result = toEvent(descriptor, data);
+  if (!result.ok) return result;
+  const event = result.value;
+  if ("s" in event.data && event.data.s !== descriptor.symbol) {
+    return { ok: false, reason: `${event.data.s} event on ${stream}` };
+  }
+  if (event.kind === "kline" && event.interval !== descriptor.interval) {
+    return { ok: false, reason: `${event.interval} kline on ${stream}` };
+  }
+  return result;
+};
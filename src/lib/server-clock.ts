@@ -0,0 +1,95 @@
+import { buildHistogram, type HistogramBucket } from "@/lib/histogram";
+import { serverTimeSchema } from "@/lib/schemas";
+
+const SAMPLES_PER_SYNC = 5;
+const RESYNC_INTERVAL_MS = 5 * 60_000;
+const MAX_SAMPLES = 60;
+const OFFSET_BUCKETS_MS = [-1000, -250, -50, 0, 50, 250, 1000];
+const RTT_BUCKETS_MS = [50, 100, 200, 500, 1000];
+
+export interface ClockSample {
+  at: number; // Local time the sample completed
+  offsetMs: number; // Server time minus local time
+  rttMs: number;
+}
+
+export interface ClockState {
+  offsetMs: number; // Best current estimate, 0 until the first sample
+  rttMs: number | null; // Round trip of the sample the estimate came from
+  synced: boolean;
+  samples: ClockSample[];
+  offsetHistogram: HistogramBucket[];
+  rttHistogram: HistogramBucket[];
+}
+
+/**
+ * Estimates the offset between the local clock and Binance server time,
+ * NTP-style: each sample brackets a `/api/time` request between two local
+ * timestamps and assumes the server read its clock halfway through. Samples
+ * with the smallest round trip have the least asymmetry, so the estimate is
+ * taken from the fastest recent sample.
+ */
+export class ServerClock {
+  private samples: ClockSample[] = [];
+  private offsetMs = 0;
+  private rttMs: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly timeUrl = "/api/time") {}
+
+  /** Local time corrected to Binance server time. */
+  now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.sync();
+    this.timer = setInterval(() => this.sync(), RESYNC_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async sync() {
+    for (let i = 0; i < SAMPLES_PER_SYNC; i++) {
+      try {
+        await this.sample();
+      } catch (error) {
+        console.warn("Server time sample failed:", error);
+        return;
+      }
+    }
+  }
+
+  getState(): ClockState {
+    return {
+      offsetMs: this.offsetMs,
+      rttMs: this.rttMs,
+      synced: this.rttMs !== null,
+      samples: this.samples,
+      offsetHistogram: buildHistogram(this.samples.map((sample) => sample.offsetMs), OFFSET_BUCKETS_MS),
+      rttHistogram: buildHistogram(this.samples.map((sample) => sample.rttMs), RTT_BUCKETS_MS),
+    };
+  }
+
+  private async sample() {
+    const sentAt = Date.now();
+    const response = await fetch(this.timeUrl, { cache: "no-store" });
+    const receivedAt = Date.now();
+    if (!response.ok) throw new Error(`Failed to fetch server time: ${response.status} ${response.statusText}`);
+    const { serverTime } = serverTimeSchema.parse(await response.json());
+
+    const rttMs = receivedAt - sentAt;
+    const sample = { at: receivedAt, offsetMs: serverTime - (sentAt + rttMs / 2), rttMs };
+    this.samples = [...this.samples, sample].slice(-MAX_SAMPLES);
+
+    const best = this.samples
+      .slice(-SAMPLES_PER_SYNC * 2)
+      .reduce((fastest, candidate) => (candidate.rttMs < fastest.rttMs ? candidate : fastest));
+    this.offsetMs = best.offsetMs;
+    this.rttMs = best.rttMs;
+  }
+}
@@ -0,0 +1,566 @@
+import { describeIssues, streamFrameSchema } from "@/lib/schemas";
+import type { FrameQuarantine } from "@/lib/frame-quarantine";
+
+const MAX_STREAMS_PER_SOCKET = 1024; // Binance's per-connection stream limit
+const CONTROL_INTERVAL_MS = 250; // Binance allows 5 incoming messages per second per connection
+const IDLE_CLOSE_MS = 10_000; // Keep an empty socket around briefly so a pair switch can reuse it
+const ROTATE_AFTER_MS = 23 * 60 * 60_000; // Binance closes stream connections after 24 hours
+const ROTATE_JITTER_MS = 10 * 60_000; // Spread rotations so sockets opened together do not rotate together
+const ROTATE_RETRY_MS = 60_000;
+const HANDOVER_TIMEOUT_MS = 30_000; // Switch whatever the standby carries if the old socket never catches up
+const MAX_HELD_FRAMES = 1000; // Per stream, while the standby waits for the old socket
+const PROBE_TIMEOUT_MS = 10_000; // A live socket answers LIST_SUBSCRIPTIONS well within this
+
+export interface StreamConnectionOptions {
+  maxStreamsPerSocket?: number;
+  rotateAfterMs?: number;
+  quarantine?: FrameQuarantine; // Receives frames that are not JSON or not a known frame shape
+}
+
+export interface StreamHandlers {
+  onMessage: (stream: string, data: unknown) => void;
+  onLive?: () => void; // Every requested stream is subscribed and delivering
+  onDrop?: (reason: string) => void; // The socket closed or the server rejected a stream; subscribe again to retry
+}
+
+export interface StreamSubscription {
+  readonly streams: readonly string[];
+  isLive(): boolean;
+  /** Releases the streams; the last subscriber of a stream unsubscribes it. */
+  close(): void;
+  /**
+   * Drops this subscription alone, as if its socket had closed: onDrop fires
+   * and the caller subscribes again. Other subscribers on the same sockets are
+   * left alone; a dead socket is found and failed by checkConnection().
+   */
+  reconnect(): void;
+  /**
+   * Asks every socket carrying these streams for a reply, to tell a quiet
+   * market from a dead connection. Resolves false when one does not answer in
+   * time; that socket is then failed and its subscriptions dropped.
+   */
+  checkConnection(): Promise<boolean>;
+}
+
+interface Subscriber {
+  streams: string[];
+  handlers: StreamHandlers;
+  live: boolean;
+  closed: boolean;
+}
+
+interface ControlRequest {
+  method: "SUBSCRIBE" | "UNSUBSCRIBE" | "LIST_SUBSCRIPTIONS";
+  params: string[];
+}
+
+interface PendingProbe {
+  sent: boolean; // Waits in the control queue like any other control message
+  result: Promise<boolean>;
+  resolve: (alive: boolean) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// One combined-stream WebSocket and the streams assigned to it.
+interface StreamSocket {
+  ws: WebSocket;
+  open: boolean;
+  assigned: Set<string>; // Streams this socket should carry
+  live: Set<string>; // Streams the server has acknowledged
+  pendingSubscribe: Set<string>;
+  pendingUnsubscribe: Set<string>;
+  requests: Map<number, ControlRequest>;
+  lastControlAt: number;
+  controlTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  rotateTimer: ReturnType<typeof setTimeout> | null;
+  replacement: StreamSocket | null; // Standby socket taking over this one's streams
+  handoverTimer: ReturnType<typeof setTimeout> | null;
+  standby: boolean; // Mirrors another socket's streams until the handover
+  held: Map<string, unknown[]>; // Standby frames not yet delivered, per stream
+  probe: PendingProbe | null; // Liveness check in flight, shared by every caller
+}
+
+/**
+ * Multiplexes market streams for every feed over as few WebSockets as possible.
+ *
+ * Streams are added and removed on open sockets with Binance's SUBSCRIBE and
+ * UNSUBSCRIBE methods and reference-counted, so two feeds on the same symbol
+ * share one stream and switching pairs only touches the streams that changed.
+ * A socket that reaches the per-connection stream limit spills new streams onto
+ * another socket. Control messages are batched and paced under the
+ * per-connection message rate limit, and incoming frames are routed to
+ * subscribers by their `stream` name.
+ *
+ * Sockets are rotated make-before-break ahead of Binance's 24-hour connection
+ * limit: a standby socket subscribes to the same streams and holds their
+ * frames while the old socket keeps delivering. Each stream moves over once
+ * the old socket has caught up with the standby's first held event, compared
+ * by update ID for diff depth, trade ID for trades and event time otherwise;
+ * held events the old socket already delivered are skipped. The old socket
+ * closes when every stream has moved. If it never catches up, or closes
+ * mid-rotation, the standby takes over anyway after HANDOVER_TIMEOUT_MS and
+ * subscribers see the gap as they would a missed event.
+ *
+ * Reconnecting is left to subscribers: when a socket closes every subscription
+ * on it is dropped with a reason, and subscribing again opens a fresh socket
+ * that the other subscribers join as they retry.
+ */
+export class StreamConnectionManager {
+  private sockets: StreamSocket[] = [];
+  private readonly streamSockets = new Map<string, StreamSocket>();
+  private readonly subscribers = new Map<string, Set<Subscriber>>();
+  private readonly lastSequence = new Map<string, number>(); // Last event delivered per stream, see eventSequence
+  private nextRequestId = 1;
+  private readonly maxStreamsPerSocket: number;
+  private readonly rotateAfterMs: number;
+  private readonly quarantine?: FrameQuarantine;
+
+  constructor(
+    private readonly url: string, // Combined-stream endpoint of the endpoint profile
+    { maxStreamsPerSocket = MAX_STREAMS_PER_SOCKET, rotateAfterMs = ROTATE_AFTER_MS, quarantine }: StreamConnectionOptions = {}
+  ) {
+    this.maxStreamsPerSocket = maxStreamsPerSocket;
+    this.rotateAfterMs = rotateAfterMs;
+    this.quarantine = quarantine;
+  }
+
+  subscribe(streams: string[], handlers: StreamHandlers): StreamSubscription {
+    const subscriber: Subscriber = { streams, handlers, live: false, closed: false };
+
+    streams.forEach((stream) => {
+      let streamSubscribers = this.subscribers.get(stream);
+      if (!streamSubscribers) {
+        streamSubscribers = new Set();
+        this.subscribers.set(stream, streamSubscribers);
+      }
+      streamSubscribers.add(subscriber);
+      if (!this.streamSockets.has(stream)) this.addStream(stream);
+    });
+    // Streams that are already live report it asynchronously, like fresh ones.
+    setTimeout(() => this.checkLive(subscriber), 0);
+
+    return {
+      streams,
+      isLive: () => subscriber.live && !subscriber.closed,
+      close: () => this.release(subscriber),
+      reconnect: () => this.drop(subscriber, "Reconnect requested"),
+      checkConnection: async () => {
+        const sockets = new Set(streams.map((stream) => this.streamSockets.get(stream)));
+        if (sockets.has(undefined)) return false;
+        const replies = await Promise.all(Array.from(sockets, (socket) => this.probe(socket!)));
+        return replies.every(Boolean);
+      },
+    };
+  }
+
+  private addStream(stream: string) {
+    // Prefer the socket that is about to unsubscribe it, then any socket with room.
+    const active = this.sockets.filter((candidate) => !candidate.standby);
+    let socket =
+      active.find((candidate) => candidate.pendingUnsubscribe.has(stream)) ??
+      active.find((candidate) => candidate.assigned.size + candidate.pendingUnsubscribe.size < this.maxStreamsPerSocket);
+    if (!socket) socket = this.openSocket();
+
+    if (socket.idleTimer) clearTimeout(socket.idleTimer);
+    socket.idleTimer = null;
+    this.streamSockets.set(stream, socket);
+    this.assign(socket, stream);
+    if (socket.replacement) this.assign(socket.replacement, stream);
+  }
+
+  private removeStream(stream: string) {
+    const socket = this.streamSockets.get(stream);
+    if (!socket) return;
+    this.streamSockets.delete(stream);
+    this.lastSequence.delete(stream);
+    this.unassign(socket, stream);
+    if (socket.replacement) this.unassign(socket.replacement, stream);
+    // A stream that already moved to a standby is still subscribed on the socket it is replacing.
+    const replaced = socket.standby ? this.replacedBy(socket) : undefined;
+    if (replaced) this.unassign(replaced, stream);
+    if (socket.assigned.size === 0 && !socket.idleTimer) {
+      socket.idleTimer = setTimeout(() => this.closeSocket(socket), IDLE_CLOSE_MS);
+    }
+  }
+
+  private assign(socket: StreamSocket, stream: string) {
+    socket.assigned.add(stream);
+    // Still subscribed on the server if its UNSUBSCRIBE has not gone out yet.
+    if (!socket.pendingUnsubscribe.delete(stream) && !socket.live.has(stream)) {
+      socket.pendingSubscribe.add(stream);
+      this.scheduleControl(socket);
+    }
+  }
+
+  private unassign(socket: StreamSocket, stream: string) {
+    socket.assigned.delete(stream);
+    socket.held.delete(stream);
+    if (!socket.pendingSubscribe.delete(stream)) {
+      socket.pendingUnsubscribe.add(stream);
+      this.scheduleControl(socket);
+    }
+  }
+
+  private release(subscriber: Subscriber) {
+    if (subscriber.closed) return;
+    subscriber.closed = true;
+    subscriber.streams.forEach((stream) => {
+      const streamSubscribers = this.subscribers.get(stream);
+      if (!streamSubscribers?.delete(subscriber) || streamSubscribers.size > 0) return;
+      this.subscribers.delete(stream);
+      this.removeStream(stream);
+    });
+  }
+
+  private drop(subscriber: Subscriber, reason: string) {
+    if (subscriber.closed) return;
+    this.release(subscriber);
+    subscriber.handlers.onDrop?.(reason);
+  }
+
+  private checkLive(subscriber: Subscriber) {
+    if (subscriber.live || subscriber.closed) return;
+    const live = subscriber.streams.every((stream) => this.streamSockets.get(stream)?.live.has(stream));
+    if (!live) return;
+    subscriber.live = true;
+    subscriber.handlers.onLive?.();
+  }
+
+  private openSocket(standby = false): StreamSocket {
+    const socket: StreamSocket = {
+      ws: new WebSocket(this.url),
+      open: false,
+      assigned: new Set(),
+      live: new Set(),
+      pendingSubscribe: new Set(),
+      pendingUnsubscribe: new Set(),
+      requests: new Map(),
+      lastControlAt: 0,
+      controlTimer: null,
+      idleTimer: null,
+      rotateTimer: null,
+      replacement: null,
+      handoverTimer: null,
+      standby,
+      held: new Map(),
+      probe: null,
+    };
+    this.sockets.push(socket);
+
+    socket.ws.onopen = () => {
+      socket.open = true;
+      this.scheduleRotation(socket, this.rotateAfterMs + Math.random() * ROTATE_JITTER_MS);
+      this.scheduleControl(socket);
+    };
+    socket.ws.onmessage = (event) => this.handleMessage(socket, event.data);
+    socket.ws.onclose = (event) => this.failSocket(socket, `WebSocket closed (code ${event.code})`);
+    return socket;
+  }
+
+  private scheduleRotation(socket: StreamSocket, delayMs: number) {
+    if (socket.rotateTimer) clearTimeout(socket.rotateTimer);
+    socket.rotateTimer = setTimeout(() => this.rotate(socket), delayMs);
+  }
+
+  // Opens a standby socket with the same streams; handOver() moves each stream once the two overlap.
+  private rotate(socket: StreamSocket) {
+    socket.rotateTimer = null;
+    if (socket.standby || socket.replacement || !this.sockets.includes(socket)) return;
+    if (socket.assigned.size === 0) {
+      this.closeSocket(socket);
+      return;
+    }
+
+    const replacement = this.openSocket(true);
+    socket.replacement = replacement;
+    socket.assigned.forEach((stream) => this.assign(replacement, stream));
+    socket.handoverTimer = setTimeout(() => {
+      socket.handoverTimer = null;
+      if (socket.replacement === replacement && !this.forceHandOver(socket)) {
+        this.failSocket(replacement, "Standby did not subscribe in time");
+      }
+    }, HANDOVER_TIMEOUT_MS);
+  }
+
+  private replacedBy(standby: StreamSocket): StreamSocket | undefined {
+    return this.sockets.find((candidate) => candidate.replacement === standby);
+  }
+
+  // Keeps a standby frame until its stream moves over.
+  private hold(standby: StreamSocket, socket: StreamSocket, stream: string, data: unknown) {
+    const held = standby.held.get(stream) ?? [];
+    held.push(data);
+    if (held.length > MAX_HELD_FRAMES) held.shift();
+    standby.held.set(stream, held);
+    this.handOver(socket, stream);
+  }
+
+  /**
+   * Moves a stream to the standby once it is subscribed there and the old
+   * socket has delivered everything before the standby's first held event,
+   * so nothing is skipped. A stream with no delivered or held events yet
+   * waits, so an event still in flight on the old socket is not lost.
+   */
+  private handOver(socket: StreamSocket, stream: string) {
+    const standby = socket.replacement;
+    if (!standby || this.streamSockets.get(stream) !== socket || !standby.live.has(stream)) return;
+    const held = standby.held.get(stream);
+    if (!held || held.length === 0) return;
+    const first = eventSequence(held[0]);
+    const last = this.lastSequence.get(stream);
+    if (first && last !== undefined && first.first > last + 1) return;
+    this.moveStream(socket, standby, stream);
+    this.finishHandOver(socket);
+  }
+
+  // Routes a stream to the standby and delivers the held events the old socket has not.
+  private moveStream(socket: StreamSocket, standby: StreamSocket, stream: string) {
+    const last = this.lastSequence.get(stream);
+    const held = standby.held.get(stream) ?? [];
+    standby.held.delete(stream);
+    this.streamSockets.set(stream, standby);
+    held.forEach((data) => {
+      const sequence = eventSequence(data);
+      if (sequence && last !== undefined && sequence.last <= last) return;
+      this.deliver(stream, data);
+    });
+  }
+
+  // Moves every stream the standby is subscribed to, whether or not the old socket caught up.
+  private forceHandOver(socket: StreamSocket): boolean {
+    const standby = socket.replacement;
+    if (!standby) return false;
+    socket.assigned.forEach((stream) => {
+      if (this.streamSockets.get(stream) === socket && standby.live.has(stream)) {
+        this.moveStream(socket, standby, stream);
+      }
+    });
+    return this.finishHandOver(socket);
+  }
+
+  // Closes the old socket once none of its streams is routed to it any more.
+  private finishHandOver(socket: StreamSocket): boolean {
+    const standby = socket.replacement;
+    if (!standby) return false;
+    if (Array.from(socket.assigned).some((stream) => this.streamSockets.get(stream) === socket)) return false;
+
+    standby.standby = false;
+    standby.held.clear();
+    socket.replacement = null;
+    socket.assigned.clear();
+    this.closeSocket(socket);
+    if (standby.assigned.size === 0) this.closeSocket(standby);
+    return true;
+  }
+
+  // Closes the socket and drops every subscription that had a stream on it.
+  private failSocket(socket: StreamSocket, reason: string) {
+    // A standby already subscribed to everything takes over a socket that closes mid-rotation.
+    if (!socket.standby && socket.replacement && this.forceHandOver(socket)) return;
+
+    this.discardSocket(socket);
+    socket.ws.onclose = null;
+    socket.ws.close();
+
+    // A failed standby only delays the rotation; the socket it was replacing is still subscribed to every stream.
+    if (socket.standby) {
+      const replaced = this.replacedBy(socket);
+      if (replaced) {
+        replaced.replacement = null;
+        if (replaced.handoverTimer) clearTimeout(replaced.handoverTimer);
+        replaced.handoverTimer = null;
+        replaced.assigned.forEach((stream) => {
+          if (this.streamSockets.get(stream) === socket) this.streamSockets.set(stream, replaced);
+        });
+        this.scheduleRotation(replaced, ROTATE_RETRY_MS);
+      }
+      return;
+    }
+    if (socket.replacement) {
+      // Streams that already moved fail with the rest.
+      const standby = socket.replacement;
+      socket.assigned.forEach((stream) => {
+        if (this.streamSockets.get(stream) === standby) this.streamSockets.set(stream, socket);
+      });
+      this.failSocket(standby, reason);
+    }
+
+    const dropped = new Set<Subscriber>();
+    socket.assigned.forEach((stream) => {
+      if (this.streamSockets.get(stream) !== socket) return;
+      this.streamSockets.delete(stream);
+      this.subscribers.get(stream)?.forEach((subscriber) => dropped.add(subscriber));
+    });
+    dropped.forEach((subscriber) => this.drop(subscriber, reason));
+  }
+
+  private closeSocket(socket: StreamSocket) {
+    if (socket.assigned.size > 0) return;
+    if (socket.replacement) {
+      const replacement = socket.replacement;
+      socket.replacement = null;
+      this.closeSocket(replacement);
+    }
+    this.discardSocket(socket);
+    socket.ws.onclose = null;
+    socket.ws.close();
+  }
+
+  // Any reply to LIST_SUBSCRIPTIONS proves the socket is still connected.
+  private probe(socket: StreamSocket): Promise<boolean> {
+    if (!socket.open) return Promise.resolve(false);
+    if (socket.probe) return socket.probe.result;
+
+    let resolve: (alive: boolean) => void = () => {};
+    const result = new Promise<boolean>((done) => {
+      resolve = done;
+    });
+    // Includes the wait in the control queue, a few intervals at most.
+    const timer = setTimeout(() => {
+      console.warn(`Stream socket did not answer within ${PROBE_TIMEOUT_MS / 1000}s, reconnecting...`);
+      this.failSocket(socket, "Connection check timed out");
+    }, PROBE_TIMEOUT_MS);
+    socket.probe = { sent: false, result, resolve, timer };
+    this.scheduleControl(socket);
+    return result;
+  }
+
+  private settleProbe(socket: StreamSocket, alive: boolean) {
+    if (!socket.probe) return;
+    clearTimeout(socket.probe.timer);
+    socket.probe.resolve(alive);
+    socket.probe = null;
+  }
+
+  private discardSocket(socket: StreamSocket) {
+    this.settleProbe(socket, false);
+    if (socket.controlTimer) clearTimeout(socket.controlTimer);
+    if (socket.idleTimer) clearTimeout(socket.idleTimer);
+    if (socket.rotateTimer) clearTimeout(socket.rotateTimer);
+    if (socket.handoverTimer) clearTimeout(socket.handoverTimer);
+    socket.open = false;
+    this.sockets = this.sockets.filter((candidate) => candidate !== socket);
+  }
+
+  // Sends one control message per interval: batched unsubscribes first so freed capacity is reused, then
+  // subscribes, then a pending connection check.
+  private scheduleControl(socket: StreamSocket) {
+    if (!socket.open || socket.controlTimer || !this.hasControlPending(socket)) return;
+
+    const delay = Math.max(0, CONTROL_INTERVAL_MS - (Date.now() - socket.lastControlAt));
+    socket.controlTimer = setTimeout(() => {
+      socket.controlTimer = null;
+      if (!socket.open || !this.hasControlPending(socket)) return;
+
+      let request: ControlRequest;
+      if (socket.pendingUnsubscribe.size > 0) {
+        request = { method: "UNSUBSCRIBE", params: Array.from(socket.pendingUnsubscribe) };
+        socket.pendingUnsubscribe.clear();
+        request.params.forEach((stream) => socket.live.delete(stream));
+      } else if (socket.pendingSubscribe.size > 0) {
+        request = { method: "SUBSCRIBE", params: Array.from(socket.pendingSubscribe) };
+        socket.pendingSubscribe.clear();
+      } else {
+        request = { method: "LIST_SUBSCRIPTIONS", params: [] };
+        socket.probe!.sent = true;
+      }
+
+      const id = this.nextRequestId++;
+      socket.requests.set(id, request);
+      // LIST_SUBSCRIPTIONS takes no params.
+      const message = request.method === "LIST_SUBSCRIPTIONS" ? { method: request.method, id } : { ...request, id };
+      socket.ws.send(JSON.stringify(message));
+      socket.lastControlAt = Date.now();
+      this.scheduleControl(socket);
+    }, delay);
+  }
+
+  private hasControlPending(socket: StreamSocket): boolean {
+    return socket.pendingSubscribe.size > 0 || socket.pendingUnsubscribe.size > 0 || socket.probe?.sent === false;
+  }
+
+  private handleMessage(socket: StreamSocket, raw: string) {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      this.quarantine?.record("socket", raw, "Invalid JSON");
+      return;
+    }
+    const parsed = streamFrameSchema.safeParse(json);
+    if (!parsed.success) {
+      this.quarantine?.record("socket", raw, `Unrecognised frame: ${describeIssues(parsed.error)}`);
+      return;
+    }
+    const message = parsed.data;
+
+    if ("stream" in message) {
+      const routed = this.streamSockets.get(message.stream);
+      if (routed === socket) {
+        this.deliver(message.stream, message.data);
+        // The old socket catching up can complete the stream's handover.
+        if (socket.replacement) this.handOver(socket, message.stream);
+      } else if (socket.standby && routed?.replacement === socket) {
+        this.hold(socket, routed, message.stream, message.data);
+      }
+      // Anything else comes from a stream being unsubscribed, or one that has already moved on.
+      return;
+    }
+
+    if (message.id === null) {
+      if ("error" in message) console.error(`Stream socket error: ${message.error.msg}`);
+      return;
+    }
+    const request = socket.requests.get(message.id);
+    socket.requests.delete(message.id);
+    if (request?.method === "LIST_SUBSCRIPTIONS") {
+      this.settleProbe(socket, true);
+      return;
+    }
+    if (!request || request.method !== "SUBSCRIBE") return;
+
+    if ("error" in message && socket.standby) {
+      console.warn(`Standby stream subscription rejected: ${message.error.msg}`, request.params);
+      this.failSocket(socket, `Subscription rejected: ${message.error.msg}`);
+      return;
+    }
+    if ("error" in message) {
+      console.error(`Stream subscription rejected: ${message.error.msg}`, request.params);
+      const reason = `Subscription rejected: ${message.error.msg}`;
+      request.params.forEach((stream) => {
+        this.subscribers.get(stream)?.forEach((subscriber) => this.drop(subscriber, reason));
+      });
+      return;
+    }
+
+    const replaced = socket.standby ? this.replacedBy(socket) : undefined;
+    request.params.forEach((stream) => {
+      if (!socket.assigned.has(stream)) return;
+      socket.live.add(stream);
+      this.subscribers.get(stream)?.forEach((subscriber) => this.checkLive(subscriber));
+      if (replaced) this.handOver(replaced, stream);
+    });
+  }
+
+  private deliver(stream: string, data: unknown) {
+    const sequence = eventSequence(data);
+    if (sequence) this.lastSequence.set(stream, Math.max(sequence.last, this.lastSequence.get(stream) ?? -Infinity));
+    this.subscribers.get(stream)?.forEach((subscriber) => {
+      if (!subscriber.closed) subscriber.handlers.onMessage(stream, data);
+    });
+  }
+}
+
+/**
+ * Range of sequence numbers an event covers, to line up the same stream on two
+ * sockets: update IDs for diff depth, the trade ID for trades and the event
+ * time for anything else. Null for events without one.
+ */
+const eventSequence = (data: unknown): { first: number; last: number } | null => {
+  if (typeof data !== "object" || data === null) return null;
+  const event = data as Record<string, unknown>;
+  if (typeof event.U === "number" && typeof event.u === "number") return { first: event.U, last: event.u };
+  const id = event.e === "aggTrade" ? event.a : event.e === "trade" ? event.t : event.E;
+  return typeof id === "number" ? { first: id, last: id } : null;
+};
@@ -0,0 +1,104 @@
+import { buildHistogram, type HistogramBucket } from "@/lib/histogram";
+
+const RATE_WINDOW_MS = 5000;
+const LAG_SMOOTHING = 0.2; // Weight of the newest sample in the lag moving average
+const STALE_AFTER_MS = 10_000;
+const MAX_LAG_SAMPLES = 500;
+const LAG_BUCKETS_MS = [0, 50, 100, 200, 500, 1000, 2000];
+
+export interface StreamStats {
+  stream: string;
+  messagesPerSecond: number;
+  lagMs: number | null; // Smoothed exchange event time to client receive time
+  lastMessageAt: number | null;
+}
+
+export interface StreamHealth {
+  at: number;
+  streams: StreamStats[];
+  sinceLastMessageMs: number; // Since the last message on any stream, or since connecting
+  stale: boolean;
+  lagHistogram: HistogramBucket[]; // Recent lag samples across all streams
+}
+
+interface StreamState {
+  arrivals: number[]; // Receive times inside the rate window
+  lagMs: number | null;
+  lastMessageAt: number | null;
+}
+
+/**
+ * Tracks per-stream message rates, exchange-to-client lag (from each payload's
+ * `E` event time) and silence, to tell a quiet market from a dead socket.
+ * The clock is injectable so lag can be measured against server time.
+ */
+export class StreamHealthMonitor {
+  private streams = new Map<string, StreamState>();
+  private connectedAt: number;
+  private lagSamples: number[] = [];
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    private readonly staleAfterMs = STALE_AFTER_MS
+  ) {
+    this.connectedAt = now();
+  }
+
+  /** Forgets all samples; silence is measured from now until the first message. */
+  reset() {
+    this.streams = new Map();
+    this.lagSamples = [];
+    this.connectedAt = this.now();
+  }
+
+  record(stream: string, eventTime?: number) {
+    const now = this.now();
+    let state = this.streams.get(stream);
+    if (!state) {
+      state = { arrivals: [], lagMs: null, lastMessageAt: null };
+      this.streams.set(stream, state);
+    }
+    state.arrivals.push(now);
+    this.prune(state, now);
+    state.lastMessageAt = now;
+
+    if (typeof eventTime === "number") {
+      const lag = now - eventTime;
+      this.lagSamples.push(lag);
+      if (this.lagSamples.length > MAX_LAG_SAMPLES) this.lagSamples.shift();
+      state.lagMs = state.lagMs === null ? lag : state.lagMs + LAG_SMOOTHING * (lag - state.lagMs);
+    }
+  }
+
+  getHealth(): StreamHealth {
+    const now = this.now();
+    let lastMessageAt = this.connectedAt;
+    const streams: StreamStats[] = [];
+
+    this.streams.forEach((state, stream) => {
+      this.prune(state, now);
+      if (state.lastMessageAt !== null) lastMessageAt = Math.max(lastMessageAt, state.lastMessageAt);
+      streams.push({
+        stream,
+        messagesPerSecond: state.arrivals.length / (RATE_WINDOW_MS / 1000),
+        lagMs: state.lagMs,
+        lastMessageAt: state.lastMessageAt,
+      });
+    });
+
+    const sinceLastMessageMs = now - lastMessageAt;
+    return {
+      at: now,
+      streams,
+      sinceLastMessageMs,
+      stale: sinceLastMessageMs > this.staleAfterMs,
+      lagHistogram: buildHistogram(this.lagSamples, LAG_BUCKETS_MS),
+    };
+  }
+
+  private prune(state: StreamState, now: number) {
+    while (state.arrivals.length > 0 && state.arrivals[0] <= now - RATE_WINDOW_MS) {
+      state.arrivals.shift();
+    }
+  }
+}
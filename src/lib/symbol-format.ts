@@ -0,0 +1,37 @@
+import type { ExchangeSymbol } from "@/lib/types";
+import { scaleOf } from "@/lib/decimal";
+
+export interface SymbolFormat {
+  baseAsset: string | null; // null until exchange info has loaded
+  quoteAsset: string | null;
+  priceDecimals: number; // Digits allowed by the PRICE_FILTER tick size
+  quantityDecimals: number; // Digits allowed by the LOT_SIZE step size
+  tickSize: string | null; // PRICE_FILTER tick size, the finest price grouping
+}
+
+// Used while exchange info loads or when a filter is missing.
+export const DEFAULT_SYMBOL_FORMAT: SymbolFormat = {
+  baseAsset: null,
+  quoteAsset: null,
+  priceDecimals: 2,
+  quantityDecimals: 4,
+  tickSize: null,
+};
+
+/** Display precision and asset names for a symbol, from its exchange info filters. */
+export const getSymbolFormat = (symbol?: ExchangeSymbol): SymbolFormat => {
+  if (!symbol) return DEFAULT_SYMBOL_FORMAT;
+  const filter = (type: string) => symbol.filters.find((candidate) => candidate.filterType === type);
+  const tickSize = filter("PRICE_FILTER")?.tickSize;
+  const stepSize = filter("LOT_SIZE")?.stepSize;
+  return {
+    baseAsset: symbol.baseAsset,
+    quoteAsset: symbol.quoteAsset,
+    priceDecimals: tickSize ? scaleOf(tickSize) : DEFAULT_SYMBOL_FORMAT.priceDecimals,
+    quantityDecimals: stepSize ? scaleOf(stepSize) : DEFAULT_SYMBOL_FORMAT.quantityDecimals,
+    tickSize: tickSize ?? null,
+  };
+};
+
+/** Column label with the asset in brackets when it is known, e.g. "Price (USDT)". */
+export const assetLabel = (label: string, asset: string | null) => (asset ? `${label} (${asset})` : label);
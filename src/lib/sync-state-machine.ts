@@ -0,0 +1,62 @@
+import type { ConnectionStatus } from "@/lib/types";
+
+const MAX_HISTORY = 50;
+
+export interface StatusTransition {
+  from: ConnectionStatus;
+  to: ConnectionStatus;
+  at: number; // Epoch milliseconds
+  reason?: string;
+}
+
+// Allowed next states for each state. Anything else is a bug in the caller.
+const TRANSITIONS: Record<ConnectionStatus, readonly ConnectionStatus[]> = {
+  idle: ["connecting"],
+  connecting: ["fetching-snapshot", "error", "disconnected"],
+  "fetching-snapshot": ["buffering", "synced", "resyncing", "error", "geo-blocked", "backing-off", "disconnected"],
+  buffering: ["synced", "resyncing", "stale", "error", "disconnected"],
+  synced: ["resyncing", "stale", "error", "disconnected"],
+  resyncing: ["buffering", "synced", "error", "geo-blocked", "backing-off", "disconnected"],
+  stale: ["synced", "buffering", "resyncing", "connecting", "error", "disconnected"],
+  "backing-off": ["connecting", "fetching-snapshot", "resyncing", "disconnected"],
+  "geo-blocked": ["connecting", "fetching-snapshot", "resyncing", "backing-off", "disconnected"],
+  disconnected: ["connecting", "backing-off"],
+  error: ["connecting", "fetching-snapshot", "resyncing", "backing-off", "geo-blocked", "disconnected"],
+};
+
+/**
+ * Tracks the feed's sync state and enforces the allowed transitions between
+ * states, keeping a bounded history of transitions for diagnostics.
+ */
+export class SyncStateMachine {
+  private state: ConnectionStatus = "idle";
+  private history: StatusTransition[] = [];
+
+  constructor(private readonly onTransition: (transition: StatusTransition) => void) {}
+
+  get current(): ConnectionStatus {
+    return this.state;
+  }
+
+  can(to: ConnectionStatus): boolean {
+    return TRANSITIONS[this.state].includes(to);
+  }
+
+  /** Moves to `to`. Returns false, leaving the state unchanged, if the transition is not allowed. */
+  transition(to: ConnectionStatus, reason?: string): boolean {
+    if (to === this.state) return true;
+    if (!this.can(to)) {
+      console.warn(`Ignoring invalid sync state transition ${this.state} -> ${to}`);
+      return false;
+    }
+    const transition: StatusTransition = { from: this.state, to, at: Date.now(), reason };
+    this.state = to;
+    this.history = [...this.history, transition].slice(-MAX_HISTORY);
+    this.onTransition(transition);
+    return true;
+  }
+
+  getHistory(): readonly StatusTransition[] {
+    return this.history;
+  }
+}
@@ -1,14 +1,145 @@
-export interface Trade {
+export type ConnectionStatus =
+  | "idle" // Nothing started yet
+  | "connecting" // Opening the WebSocket
+  | "fetching-snapshot" // Stream open, loading the depth snapshot while diffs are buffered
+  | "buffering" // Snapshot applied, waiting for a diff that lines up with it
+  | "synced" // Book aligned with the stream and live
+  | "resyncing" // Showing the last known book while a fresh snapshot loads
+  | "stale" // Stream open but silent for too long
+  | "backing-off" // Waiting before the next retry
+  | "geo-blocked" // Binance refuses service from this region
+  | "disconnected" // Stream closed
+  | "error"; // Snapshot or stream failure
+
+// Market stream payloads, as delivered in the `data` field of a combined
+// stream. Prices and quantities are decimal strings; ids and times are numbers.
+
+/** `<symbol>@trade`: one taker order filled against one maker order. */
+export interface TradeEvent {
+  e: "trade"; // Event type
   E: number; // Event time
+  s: string; // Symbol
+  t: number; // Trade ID
+  p: string; // Price
+  q: string; // Quantity
   T: number; // Trade time
+  m: boolean; // Is the buyer the market maker?
+}
+
+/** `<symbol>@aggTrade`: fills of one taker order at one price, aggregated. */
+export interface AggTradeEvent {
+  e: "aggTrade"; // Event type
+  E: number; // Event time
+  s: string; // Symbol
   a: number; // Aggregate trade ID
   p: string; // Price
   q: string; // Quantity
+  f: number; // First trade ID
+  l: number; // Last trade ID
+  T: number; // Trade time
   m: boolean; // Is the buyer the market maker?
 }
 
+export type Trade = AggTradeEvent; // Entries of the recent trades list
+
+export type KlineInterval =
+  | "1s"
+  | "1m"
+  | "3m"
+  | "5m"
+  | "15m"
+  | "30m"
+  | "1h"
+  | "2h"
+  | "4h"
+  | "6h"
+  | "8h"
+  | "12h"
+  | "1d"
+  | "3d"
+  | "1w"
+  | "1M";
+
+export interface Kline {
+  t: number; // Kline open time
+  T: number; // Kline close time
+  s: string; // Symbol
+  i: KlineInterval; // Interval
+  f: number; // First trade ID
+  L: number; // Last trade ID
+  o: string; // Open price
+  c: string; // Close price
+  h: string; // High price
+  l: string; // Low price
+  v: string; // Base asset volume
+  n: number; // Number of trades
+  x: boolean; // Is this kline closed?
+  q: string; // Quote asset volume
+  V: string; // Taker buy base asset volume
+  Q: string; // Taker buy quote asset volume
+}
+
+/** `<symbol>@kline_<interval>`: the current candle, pushed on every change. */
+export interface KlineEvent {
+  e: "kline"; // Event type
+  E: number; // Event time
+  s: string; // Symbol
+  k: Kline;
+}
+
+/** `<symbol>@miniTicker`: rolling 24h statistics, without price change fields. */
+export interface MiniTickerEvent {
+  e: "24hrMiniTicker"; // Event type
+  E: number; // Event time
+  s: string; // Symbol
+  c: string; // Close price
+  o: string; // Open price
+  h: string; // High price
+  l: string; // Low price
+  v: string; // Total traded base asset volume
+  q: string; // Total traded quote asset volume
+}
+
+/** `<symbol>@ticker`: full rolling 24h statistics. */
+export interface TickerEvent {
+  e: "24hrTicker"; // Event type
+  E: number; // Event time
+  s: string; // Symbol
+  p: string; // Price change
+  P: string; // Price change percent
+  w: string; // Weighted average price
+  x: string; // First trade price before the 24h window
+  c: string; // Last price
+  Q: string; // Last quantity
+  b: string; // Best bid price
+  B: string; // Best bid quantity
+  a: string; // Best ask price
+  A: string; // Best ask quantity
+  o: string; // Open price
+  h: string; // High price
+  l: string; // Low price
+  v: string; // Total traded base asset volume
+  q: string; // Total traded quote asset volume
+  O: number; // Statistics open time
+  C: number; // Statistics close time
+  F: number; // First trade ID
+  L: number; // Last trade ID
+  n: number; // Total number of trades
+}
+
+/** `<symbol>@bookTicker`: best bid and ask, pushed in real time. Has no event type or time. */
+export interface BookTickerEvent {
+  u: number; // Order book update ID
+  s: string; // Symbol
+  b: string; // Best bid price
+  B: string; // Best bid quantity
+  a: string; // Best ask price
+  A: string; // Best ask quantity
+}
+
+/** `<symbol>@depth`: changed levels since the previous event; a zero quantity removes the level. */
 export interface DepthUpdate {
-  e: string; // Event type
+  e: "depthUpdate"; // Event type
   E: number; // Event time
   s: string; // Symbol
   U: number; // First update ID in event
@@ -17,4 +148,56 @@ export interface DepthUpdate {
   a: [string, string][]; // Asks to be updated
 }
 
+export type PartialDepthLevels = 5 | 10 | 20;
+
+/** `<symbol>@depth<levels>`: the top of the book, in the same shape as a REST snapshot. */
+export type PartialDepth = DepthSnapshot;
+
+/** Every frame of a combined stream (`/stream?streams=...`) wraps its payload with the stream name. */
+export interface CombinedStreamMessage<T = unknown> {
+  stream: string; // e.g. btcusdt@depth
+  data: T;
+}
+
+/** A market stream payload, discriminated by the stream it arrived on. */
+export type MarketStreamEvent =
+  | { kind: "trade"; symbol: string; data: TradeEvent }
+  | { kind: "aggTrade"; symbol: string; data: AggTradeEvent }
+  | { kind: "kline"; symbol: string; interval: KlineInterval; data: KlineEvent }
+  | { kind: "miniTicker"; symbol: string; data: MiniTickerEvent }
+  | { kind: "ticker"; symbol: string; data: TickerEvent }
+  | { kind: "bookTicker"; symbol: string; data: BookTickerEvent }
+  | { kind: "partialDepth"; symbol: string; levels: PartialDepthLevels; data: PartialDepth }
+  | { kind: "depth"; symbol: string; data: DepthUpdate };
+
+export type MarketStreamKind = MarketStreamEvent["kind"];
+
 export type OrderBookEntry = [string, string]; // [price, quantity]
+
+export interface DepthSnapshot {
+  lastUpdateId: number; // Last update ID included in the snapshot
+  bids: OrderBookEntry[];
+  asks: OrderBookEntry[];
+}
+
+export interface SymbolFilter {
+  filterType: string; // PRICE_FILTER, LOT_SIZE, NOTIONAL, ...
+  tickSize?: string; // PRICE_FILTER
+  stepSize?: string; // LOT_SIZE
+  [field: string]: unknown;
+}
+
+export interface ExchangeSymbol {
+  symbol: string;
+  status: string; // TRADING, BREAK, HALT, END_OF_DAY, ...
+  baseAsset: string;
+  quoteAsset: string;
+  filters: SymbolFilter[];
+  isSpotTradingAllowed?: boolean; // false once a pair is delisted; missing on some endpoints
+}
+
+export interface ExchangeInfo {
+  timezone: string;
+  serverTime: number;
+  symbols: ExchangeSymbol[];
+}
@@ -0,0 +1,43 @@
+// Shared by the API routes and the feed, so the UI can explain why Binance
+// refused a request instead of showing a bare status code.
+
+export type UpstreamErrorKind =
+  | "geo-blocked" // 451: Binance refuses service from the caller's region
+  | "waf-limited" // 403: Binance's web application firewall rejected the request
+  | "banned" // 418: IP banned for ignoring rate limits
+  | "rate-limited" // 429: request weight exceeded
+  | "unavailable" // Network failure or 5xx on every host tried
+  | "rejected"; // Any other 4xx, e.g. an unknown symbol
+
+export interface UpstreamErrorInfo {
+  kind: UpstreamErrorKind;
+  status: number; // Upstream HTTP status, 0 for a network failure
+  message: string;
+  hosts: string[]; // Hosts tried, in order
+  retryAfterMs?: number;
+}
+
+/** Body of a failed proxy response. */
+export interface UpstreamErrorBody {
+  error: string;
+  details?: string;
+  upstream: UpstreamErrorInfo;
+}
+
+export const classifyUpstreamStatus = (status: number): UpstreamErrorKind => {
+  if (status === 451) return "geo-blocked";
+  if (status === 403) return "waf-limited";
+  if (status === 418) return "banned";
+  if (status === 429) return "rate-limited";
+  if (status === 0 || status >= 500) return "unavailable";
+  return "rejected";
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
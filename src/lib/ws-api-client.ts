@@ -0,0 +1,136 @@
+import type { FrameQuarantine } from "@/lib/frame-quarantine";
+import { describeIssues, wsApiResponseSchema } from "@/lib/schemas";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const IDLE_CLOSE_MS = 60_000; // Close the socket after a minute without requests
+
+/** A failed WebSocket API request: the response status, or 0 when the socket failed. */
+export class WsApiError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "WsApiError";
+  }
+}
+
+export interface WsApiClientOptions {
+  timeoutMs?: number;
+  quarantine?: FrameQuarantine; // Receives frames that are not JSON or not a response
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: WsApiError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Minimal request/response client for Binance's WebSocket API. Requests carry
+ * an id that the response echoes back, so several can be in flight on one
+ * socket. The socket opens on the first request and closes again when idle;
+ * closing it rejects everything still pending. Only public market data
+ * methods are supported, there is no request signing. Results are returned
+ * unvalidated, for the caller to parse.
+ */
+export class BinanceWsApiClient {
+  private ws: WebSocket | null = null;
+  private opened: Promise<WebSocket> | null = null;
+  private readonly pending = new Map<string, PendingRequest>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+  private readonly timeoutMs: number;
+  private readonly quarantine?: FrameQuarantine;
+
+  constructor(
+    private readonly url: string,
+    { timeoutMs = REQUEST_TIMEOUT_MS, quarantine }: WsApiClientOptions = {}
+  ) {
+    this.timeoutMs = timeoutMs;
+    this.quarantine = quarantine;
+  }
+
+  async request(method: string, params: Record<string, unknown> = {}): Promise<unknown> {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    const ws = await this.open();
+    const id = `${method}-${this.nextId++}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id)?.reject(new WsApiError(`${method} request timed out after ${this.timeoutMs}ms`, 0));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      ws.send(JSON.stringify({ id, method, params }));
+    });
+  }
+
+  close() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.ws?.close();
+  }
+
+  private open(): Promise<WebSocket> {
+    if (this.opened) return this.opened;
+
+    this.opened = new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      this.ws = ws;
+      ws.onopen = () => resolve(ws);
+      ws.onmessage = (event) => this.handleMessage(event.data);
+      ws.onclose = (event) => {
+        const error = new WsApiError(`WebSocket API closed (code ${event.code})`, 0);
+        if (this.ws === ws) {
+          this.ws = null;
+          this.opened = null;
+        }
+        reject(error);
+        Array.from(this.pending.keys()).forEach((id) => this.settle(id)?.reject(error));
+      };
+    });
+    return this.opened;
+  }
+
+  private handleMessage(raw: string) {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      this.quarantine?.record("ws-api", raw, "Invalid JSON");
+      return;
+    }
+    const parsed = wsApiResponseSchema.safeParse(json);
+    if (!parsed.success) {
+      this.quarantine?.record("ws-api", raw, `Unrecognised response: ${describeIssues(parsed.error)}`);
+      return;
+    }
+    const message = parsed.data;
+    // Requests that fail before Binance reads their id are answered with a null id; they time out instead.
+    const request = message.id === null ? undefined : this.settle(message.id);
+    if (!request) return;
+
+    if (message.status === 200) {
+      request.resolve(message.result);
+    } else {
+      // Rate limit rejections carry the time the ban lifts.
+      const retryAfter = message.error?.data?.retryAfter;
+      request.reject(
+        new WsApiError(
+          `WebSocket API error ${message.status}: ${message.error?.msg ?? "unknown error"}`,
+          message.status,
+          retryAfter === undefined ? undefined : Math.max(0, retryAfter - Date.now())
+        )
+      );
+    }
+  }
+
+  private settle(id: string): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (!request) return undefined;
+    clearTimeout(request.timer);
+    this.pending.delete(id);
+    if (this.pending.size === 0 && this.ws && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => this.close(), IDLE_CLOSE_MS);
+    }
+    return request;
+  }
+}
@@ -0,0 +1,119 @@
+import { BinanceFeed } from "@/lib/binance-feed";
+import { ServerClock } from "@/lib/server-clock";
+import { StreamConnectionManager } from "@/lib/stream-connection-manager";
+import { BinanceWsApiClient } from "@/lib/ws-api-client";
+import { FrameQuarantine } from "@/lib/frame-quarantine";
+import {
+  getDefaultEndpointProfile,
+  getEndpointProfile,
+  type EndpointProfile,
+  type EndpointProfileId,
+} from "@/lib/endpoints";
+import type { FeedMessage, FeedRequest } from "@/lib/feed-protocol";
+
+// Hosts one BinanceFeed per subscribed hook so WebSocket parsing and book
+// maintenance never block React rendering on the main thread.
+
+const PROFILE_IDLE_MS = 10_000; // Switching pairs replaces the feed, so wait before treating a profile as unused
+
+const feeds = new Map<number, { feed: BinanceFeed; profile: EndpointProfileId }>();
+
+// Connections shared by every feed on the same endpoint profile. Kept once the
+// last feed leaves, so switching back reuses them, but the clock stops polling
+// and the WebSocket API socket closes.
+interface ProfileContext {
+  profile: EndpointProfile;
+  feeds: number; // Feeds currently using the profile
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  clock: ServerClock;
+  // Feeds share multiplexed sockets, so switching pairs only re-subscribes streams.
+  connections: StreamConnectionManager;
+  wsApi?: BinanceWsApiClient;
+  quarantine: FrameQuarantine;
+}
+
+const contexts = new Map<EndpointProfileId, ProfileContext>();
+
+const acquireContext = (id: EndpointProfileId): ProfileContext => {
+  let context = contexts.get(id);
+  if (!context) {
+    const profile = getEndpointProfile(id) ?? getDefaultEndpointProfile();
+    const quarantine = new FrameQuarantine();
+    context = {
+      profile,
+      feeds: 0,
+      idleTimer: null,
+      clock: new ServerClock(`/api/time?profile=${profile.id}`),
+      quarantine,
+      connections: new StreamConnectionManager(profile.streamUrl, { quarantine }),
+      // Opt-in: load depth snapshots over the WebSocket API so static deployments need no proxy.
+      wsApi:
+        process.env.NEXT_PUBLIC_SNAPSHOT_SOURCE === "ws-api" && profile.wsApiUrl
+          ? new BinanceWsApiClient(profile.wsApiUrl, { quarantine })
+          : undefined,
+    };
+    contexts.set(id, context);
+  }
+  if (context.idleTimer) clearTimeout(context.idleTimer);
+  context.idleTimer = null;
+  context.feeds++;
+  context.clock.start();
+  return context;
+};
+
+const releaseContext = (id: EndpointProfileId) => {
+  const context = contexts.get(id);
+  if (!context || --context.feeds > 0) return;
+  context.idleTimer = setTimeout(() => {
+    context.idleTimer = null;
+    context.clock.stop();
+    context.wsApi?.close();
+  }, PROFILE_IDLE_MS);
+};
+
+const stopFeed = (feedId: number) => {
+  const entry = feeds.get(feedId);
+  if (!entry) return;
+  entry.feed.stop();
+  feeds.delete(feedId);
+  releaseContext(entry.profile);
+};
+
+const post = (message: FeedMessage) => {
+  self.postMessage(message);
+};
+
+self.addEventListener("message", (event: MessageEvent<FeedRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "subscribe": {
+      stopFeed(request.feedId);
+      const { profile, clock, connections, wsApi, quarantine } = acquireContext(request.profile);
+      const feed = new BinanceFeed({
+        symbol: request.symbol,
+        profile,
+        clock,
+        connections,
+        wsApi,
+        quarantine,
+        onUpdate: (update) => post({ type: "update", feedId: request.feedId, ...update }),
+      });
+      feeds.set(request.feedId, { feed, profile: request.profile });
+      feed.start();
+      break;
+    }
+    case "book-selection":
+      feeds.get(request.feedId)?.feed.setBookSelection(request.selection);
+      break;
+    case "reconnect":
+      feeds.get(request.feedId)?.feed.reconnectNow();
+      break;
+    case "market-status":
+      feeds.get(request.feedId)?.feed.setMarketTrading(request.trading);
+      break;
+    case "unsubscribe":
+      stopFeed(request.feedId);
+      break;
+  }
+});